@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import * as path from "node:path"
+import * as os from "node:os"
+import * as fs from "node:fs/promises"
+import { startCheckpoints, undoCheckpoint, NELSON_CHECKPOINT_DIR } from "./checkpoint"
+import { markTaskCompleteAndCommit } from "./git"
+import { parsePlanFile } from "./plan"
+
+const PLAN_FILE = ".opencode/plans/demo.md"
+
+const projects: string[] = []
+
+async function createProject(): Promise<string> {
+  const dir = path.join(os.tmpdir(), `nelson-checkpoint-test-${Date.now()}`)
+  projects.push(dir)
+  await fs.mkdir(path.join(dir, ".opencode/plans"), { recursive: true })
+  await Bun.write(
+    path.join(dir, PLAN_FILE),
+    "# Demo\n\n## Tasks\n\n- [ ] **Edit the readme**\n- [ ] **Add a file**\n",
+  )
+  await Bun.write(path.join(dir, "README.md"), "original\n")
+  await Bun.write(path.join(dir, "old.txt"), "old\n")
+  return dir
+}
+
+describe("checkpoints", () => {
+  afterEach(async () => {
+    for (const dir of projects.splice(0)) {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("save a task's changed files when the project isn't a git repository", async () => {
+    const dir = await createProject()
+    await startCheckpoints(dir, PLAN_FILE)
+
+    await Bun.write(path.join(dir, "README.md"), "changed\n")
+    await fs.unlink(path.join(dir, "old.txt"))
+    const result = await markTaskCompleteAndCommit(dir, PLAN_FILE, 1, true)
+
+    expect(result.status).toBe("completed")
+    expect(result.commitResult?.success).toBe(true)
+    expect(result.commitResult?.message).toContain("2 file(s) changed")
+
+    const taskId = parsePlanFile(await Bun.file(path.join(dir, PLAN_FILE)).text()).tasks[0].id
+    const manifest = await Bun.file(
+      path.join(dir, NELSON_CHECKPOINT_DIR, "demo", taskId, "manifest.json"),
+    ).json()
+    expect(manifest.changes.map((c: { path: string }) => c.path).sort()).toEqual([
+      "README.md",
+      "old.txt",
+    ])
+  })
+
+  test("leave out ignored files and build folders", async () => {
+    const dir = await createProject()
+    await Bun.write(path.join(dir, ".gitignore"), "# build output\n*.log\n!keep.log\nout/\n")
+    for (const file of ["app.log", "keep.log", "out/app.js", "dist/app.js", ".venv/bin/python"]) {
+      await Bun.write(path.join(dir, file), "generated\n")
+    }
+    await startCheckpoints(dir, PLAN_FILE)
+
+    const head = await Bun.file(path.join(dir, NELSON_CHECKPOINT_DIR, "demo", "head.json")).json()
+    expect(Object.keys(head).sort()).toEqual([".gitignore", "README.md", "keep.log", "old.txt"])
+  })
+
+  test("undo restores files from before the task", async () => {
+    const dir = await createProject()
+    await startCheckpoints(dir, PLAN_FILE)
+
+    await Bun.write(path.join(dir, "README.md"), "task 1\n")
+    await markTaskCompleteAndCommit(dir, PLAN_FILE, 1, true)
+    await Bun.write(path.join(dir, "src/new.ts"), "export {}\n")
+    await fs.unlink(path.join(dir, "old.txt"))
+    await markTaskCompleteAndCommit(dir, PLAN_FILE, 2, true)
+
+    const tasks = parsePlanFile(await Bun.file(path.join(dir, PLAN_FILE)).text()).tasks
+    const undone = await undoCheckpoint(dir, PLAN_FILE, tasks[1].id)
+
+    expect(undone.success).toBe(true)
+    expect(await Bun.file(path.join(dir, "src/new.ts")).exists()).toBe(false)
+    expect(await Bun.file(path.join(dir, "old.txt")).text()).toBe("old\n")
+    expect(await Bun.file(path.join(dir, "README.md")).text()).toBe("task 1\n")
+  })
+
+  test("undo refuses when a file changed again after the task", async () => {
+    const dir = await createProject()
+    await startCheckpoints(dir, PLAN_FILE)
+
+    await Bun.write(path.join(dir, "README.md"), "task 1\n")
+    await markTaskCompleteAndCommit(dir, PLAN_FILE, 1, true)
+    await Bun.write(path.join(dir, "README.md"), "edited later\n")
+
+    const taskId = parsePlanFile(await Bun.file(path.join(dir, PLAN_FILE)).text()).tasks[0].id
+    const undone = await undoCheckpoint(dir, PLAN_FILE, taskId)
+
+    expect(undone.success).toBe(false)
+    expect(undone.message).toContain("README.md")
+    expect(await Bun.file(path.join(dir, "README.md")).text()).toBe("edited later\n")
+  })
+})
@@ -0,0 +1,207 @@
+import * as path from "node:path"
+import { createHash } from "node:crypto"
+import { mkdir, readdir, readFile, unlink, rm } from "node:fs/promises"
+import type { CheckpointManifest, CommitResult } from "./types"
+import { planSlug } from "./plan"
+
+export const NELSON_CHECKPOINT_DIR = ".opencode/nelson/checkpoints"
+
+/**
+ * Directories never included in checkpoints, whatever the project's .gitignore says:
+ * Nelson's own files, and dependency, build and environment folders that can be huge
+ */
+const IGNORED_DIRS = new Set([
+  ".git",
+  ".opencode",
+  "node_modules",
+  ".venv",
+  "venv",
+  "__pycache__",
+  "dist",
+  "build",
+  "target",
+  "coverage",
+])
+
+/**
+ * Read the project's .gitignore into a check for relative paths. Supports the common
+ * subset: comments, `!` negation, a trailing `/` for directories only, and globs (a
+ * pattern without a slash matches a name at any depth).
+ */
+async function readIgnoreRules(
+  directory: string,
+): Promise<(relative: string, isDir: boolean) => boolean> {
+  const file = Bun.file(path.join(directory, ".gitignore"))
+  const text = (await file.exists()) ? await file.text() : ""
+  const rules = text.split("\n").flatMap((line) => {
+    let pattern = line.trim()
+    if (!pattern || pattern.startsWith("#")) return []
+    const negated = pattern.startsWith("!")
+    if (negated) pattern = pattern.slice(1)
+    const dirOnly = pattern.endsWith("/")
+    pattern = pattern.replace(/\/+$/, "")
+    const anchored = pattern.includes("/")
+    return [{ glob: new Bun.Glob(pattern.replace(/^\//, "")), negated, dirOnly, anchored }]
+  })
+
+  return (relative, isDir) => {
+    const name = path.posix.basename(relative)
+    if (isDir && IGNORED_DIRS.has(name)) return true
+    // Later rules win, as in git
+    let ignored = false
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue
+      if (rule.glob.match(rule.anchored ? relative : name)) ignored = !rule.negated
+    }
+    return ignored
+  }
+}
+
+/**
+ * Checkpoint folder for a plan: .opencode/nelson/checkpoints/<plan-slug>
+ */
+function planCheckpointDir(directory: string, planFile: string): string {
+  return path.join(directory, NELSON_CHECKPOINT_DIR, planSlug(planFile))
+}
+
+/**
+ * Hash every file in the project (relative path → content hash), skipping IGNORED_DIRS
+ * and whatever the project's .gitignore lists
+ */
+async function hashProjectFiles(directory: string): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {}
+  const isIgnored = await readIgnoreRules(directory)
+  const walk = async (dir: string) => {
+    const entries = await readdir(path.join(directory, dir), { withFileTypes: true })
+    for (const entry of entries) {
+      const relative = dir ? `${dir}/${entry.name}` : entry.name
+      if (isIgnored(relative, entry.isDirectory())) continue
+      if (entry.isDirectory()) {
+        await walk(relative)
+      } else if (entry.isFile()) {
+        const content = await readFile(path.join(directory, relative))
+        hashes[relative] = createHash("sha1").update(content).digest("hex")
+      }
+    }
+  }
+  await walk("")
+  return hashes
+}
+
+/**
+ * Copy a file's current content into the plan's object store (named by its hash)
+ */
+async function storeObject(directory: string, planDir: string, file: string, hash: string) {
+  const objectPath = path.join(planDir, "objects", hash)
+  if (await Bun.file(objectPath).exists()) return
+  await mkdir(path.dirname(objectPath), { recursive: true })
+  await Bun.write(objectPath, Bun.file(path.join(directory, file)))
+}
+
+/**
+ * Record the current state of every project file as the baseline for a plan's
+ * checkpoints. Used instead of git commits when the project is not a git repository.
+ */
+export async function startCheckpoints(directory: string, planFile: string): Promise<void> {
+  const planDir = planCheckpointDir(directory, planFile)
+  const hashes = await hashProjectFiles(directory)
+  for (const [file, hash] of Object.entries(hashes)) {
+    await storeObject(directory, planDir, file, hash)
+  }
+  await Bun.write(path.join(planDir, "head.json"), JSON.stringify(hashes, null, 2))
+}
+
+/**
+ * Save a checkpoint of the files a task changed since the previous checkpoint (or
+ * the baseline), in .opencode/nelson/checkpoints/<plan>/<task-id>/
+ */
+export async function createCheckpoint(
+  directory: string,
+  planFile: string,
+  taskId: string,
+  taskNum: number,
+  taskTitle: string,
+): Promise<CommitResult> {
+  const planDir = planCheckpointDir(directory, planFile)
+  const headFile = Bun.file(path.join(planDir, "head.json"))
+  if (!(await headFile.exists())) {
+    await startCheckpoints(directory, planFile)
+    return { success: false, message: "No checkpoint baseline yet - recorded one now" }
+  }
+
+  const head: Record<string, string> = await headFile.json()
+  const current = await hashProjectFiles(directory)
+  const changes: CheckpointManifest["changes"] = []
+  for (const file of new Set([...Object.keys(head), ...Object.keys(current)])) {
+    if (head[file] === current[file]) continue
+    changes.push({ path: file, before: head[file] ?? null, after: current[file] ?? null })
+    if (current[file]) {
+      await storeObject(directory, planDir, file, current[file])
+    }
+  }
+  if (changes.length === 0) {
+    return { success: false, message: "No changes to checkpoint" }
+  }
+
+  const manifest: CheckpointManifest = {
+    taskId,
+    taskNum,
+    taskTitle,
+    createdAt: new Date().toISOString(),
+    changes,
+  }
+  await Bun.write(path.join(planDir, taskId, "manifest.json"), JSON.stringify(manifest, null, 2))
+  await Bun.write(headFile, JSON.stringify(current, null, 2))
+
+  return {
+    success: true,
+    message: `Saved checkpoint for task ${taskNum} (${changes.length} file(s) changed)`,
+  }
+}
+
+/**
+ * Undo a task's checkpoint: put every file it changed back the way it was before the
+ * task. Nothing is touched if any of those files has changed again since.
+ */
+export async function undoCheckpoint(
+  directory: string,
+  planFile: string,
+  taskId: string,
+): Promise<{ success: boolean; message: string }> {
+  const planDir = planCheckpointDir(directory, planFile)
+  const manifestFile = Bun.file(path.join(planDir, taskId, "manifest.json"))
+  if (!(await manifestFile.exists())) {
+    return { success: false, message: `No checkpoint found for task ${taskId}` }
+  }
+  const manifest: CheckpointManifest = await manifestFile.json()
+
+  const current = await hashProjectFiles(directory)
+  const conflicts = manifest.changes.filter((c) => (current[c.path] ?? null) !== c.after)
+  if (conflicts.length > 0) {
+    return {
+      success: false,
+      message: `These files changed again after task ${manifest.taskNum}, so nothing was undone: ${conflicts.map((c) => c.path).join(", ")}`,
+    }
+  }
+
+  const headFile = Bun.file(path.join(planDir, "head.json"))
+  const head: Record<string, string> = (await headFile.exists()) ? await headFile.json() : current
+  for (const change of manifest.changes) {
+    const target = path.join(directory, change.path)
+    if (change.before) {
+      await mkdir(path.dirname(target), { recursive: true })
+      await Bun.write(target, Bun.file(path.join(planDir, "objects", change.before)))
+      head[change.path] = change.before
+    } else {
+      await unlink(target)
+      delete head[change.path]
+    }
+  }
+  await Bun.write(headFile, JSON.stringify(head, null, 2))
+  await rm(path.join(planDir, taskId), { recursive: true, force: true })
+
+  return {
+    success: true,
+    message: `Restored ${manifest.changes.length} file(s) from before task ${manifest.taskNum}`,
+  }
+}
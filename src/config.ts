@@ -0,0 +1,21 @@
+import * as path from "node:path"
+import type { NelsonConfig } from "./types"
+
+export const NELSON_CONFIG_FILE = ".opencode/nelson.json"
+
+/**
+ * Read the project's Nelson config (.opencode/nelson.json), or an empty config if
+ * there is none
+ */
+export async function readConfig(directory: string): Promise<NelsonConfig> {
+  const configPath = path.join(directory, NELSON_CONFIG_FILE)
+  try {
+    const file = Bun.file(configPath)
+    if (await file.exists()) {
+      return await file.json()
+    }
+  } catch {
+    // Config file corrupted or missing
+  }
+  return {}
+}
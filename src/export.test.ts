@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test"
+import { buildPlanReport, renderPlanReportHtml } from "./export"
+import { parsePlanFile } from "./plan"
+import type { JournalEntry } from "./types"
+
+const plan = parsePlanFile(`# Todo <API>
+
+## Overview
+
+A small REST API
+
+## Tasks
+
+- [x] **Set up the project**
+  Create package.json
+- [x] **Add routes**
+  - [x] GET /todos
+  - [ ] POST /todos
+- [ ] **Write docs**
+`)
+
+const journalEntry = (overrides: Partial<JournalEntry>): JournalEntry => ({
+  sessionId: "s1",
+  mode: "loop",
+  planFile: ".opencode/plans/todo.md",
+  taskNum: null,
+  taskTitle: null,
+  iteration: 1,
+  startedAt: "2026-01-01T00:00:00.000Z",
+  endedAt: "2026-01-01T00:01:00.000Z",
+  taskStatus: "completed",
+  verifyPassed: null,
+  commitSha: null,
+  commitMessage: null,
+  promiseDetected: null,
+  signal: null,
+  loopEnded: null,
+  errors: [],
+  ...overrides,
+})
+
+describe("buildPlanReport", () => {
+  test("collects progress and each task's commits", () => {
+    const report = buildPlanReport(
+      plan,
+      ".opencode/plans/todo.md",
+      [
+        {
+          sha: "a".repeat(40),
+          subject: "feat(nelson): task 1 - Set up the project",
+          planFile: ".opencode/plans/todo.md",
+          taskId: "task-1",
+          iteration: 1,
+          squashed: false,
+        },
+        {
+          sha: "c".repeat(40),
+          subject: "feat(nelson): task 1 - Other plan",
+          planFile: ".opencode/plans/other.md",
+          taskId: "task-1",
+          iteration: 1,
+          squashed: false,
+        },
+      ],
+      [
+        journalEntry({
+          taskNum: 2,
+          taskTitle: "Add routes",
+          commitSha: "b".repeat(40),
+          commitMessage: "feat(nelson): task 2 - Add routes\n\nbody",
+        }),
+      ],
+    )
+
+    expect(report.title).toBe("Todo <API>")
+    expect(report.progress).toMatchObject({ total: 3, completed: 2, pending: 1, skipped: 0 })
+    expect(report.tasks[0].commits).toEqual([
+      { sha: "a".repeat(40), subject: "feat(nelson): task 1 - Set up the project" },
+    ])
+    expect(report.tasks[1].commits).toEqual([
+      { sha: "b".repeat(40), subject: "feat(nelson): task 2 - Add routes" },
+    ])
+    expect(report.tasks[1].subtasks).toEqual([
+      { title: "GET /todos", completed: true },
+      { title: "POST /todos", completed: false },
+    ])
+    expect(report.tasks[2]).toMatchObject({ status: "pending", commits: [] })
+  })
+})
+
+describe("renderPlanReportHtml", () => {
+  test("renders a self-contained page with escaped content", () => {
+    const html = renderPlanReportHtml(buildPlanReport(plan, ".opencode/plans/todo.md", [], []))
+    expect(html).toStartWith("<!DOCTYPE html>")
+    expect(html).toContain("<title>Todo &lt;API&gt;</title>")
+    expect(html).toContain("2/3 tasks complete (67%)")
+    expect(html).toContain("☐ POST /todos")
+    expect(html).not.toMatch(/<script|<link|src=/)
+  })
+})
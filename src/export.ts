@@ -0,0 +1,163 @@
+import type { ParsedPlan, PlanReport, TaskCommit, JournalEntry, TaskStatus } from "./types"
+import { planSlug } from "./plan"
+
+export const NELSON_REPORT_DIR = ".opencode/nelson/reports"
+
+/**
+ * Human-readable labels for task statuses in exported reports
+ */
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  pending: "Pending",
+  in_progress: "In progress",
+  completed: "Completed",
+  skipped: "Skipped",
+  blocked: "Blocked",
+}
+
+/**
+ * Build a report of a plan's progress. Each task's commits come from their Nelson
+ * trailers, plus any other commit the run journal recorded for it.
+ */
+export function buildPlanReport(
+  plan: ParsedPlan,
+  planFile: string,
+  commits: TaskCommit[],
+  journal: JournalEntry[],
+): PlanReport {
+  const counts = Object.fromEntries(
+    (Object.keys(STATUS_LABELS) as TaskStatus[]).map((status) => [
+      status,
+      plan.tasks.filter((t) => t.status === status).length,
+    ]),
+  ) as Record<TaskStatus, number>
+
+  return {
+    title: plan.title || planSlug(planFile),
+    planFile,
+    generatedAt: new Date().toISOString(),
+    overview: plan.overview,
+    progress: { total: plan.tasks.length, ...counts },
+    tasks: plan.tasks.map((task, i) => {
+      const taskCommits = commits
+        .filter((c) => c.planFile === planFile && c.taskId === task.id)
+        .reverse()
+        .map((c) => ({ sha: c.sha, subject: c.subject }))
+      for (const entry of journal) {
+        if (entry.taskNum !== i + 1 || entry.taskTitle !== task.title || !entry.commitSha) continue
+        if (taskCommits.some((c) => c.sha === entry.commitSha)) continue
+        taskCommits.push({
+          sha: entry.commitSha,
+          subject: entry.commitMessage?.split("\n")[0] ?? "",
+        })
+      }
+      return {
+        number: i + 1,
+        id: task.id,
+        title: task.title,
+        status: task.status,
+        description: task.description,
+        dependsOn: task.dependsOn ?? [],
+        subtasks: (task.subtasks ?? []).map((sub) => ({
+          title: sub.title,
+          completed: sub.completed,
+        })),
+        acceptance: task.acceptance ?? [],
+        commits: taskCommits,
+      }
+    }),
+  }
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * Render a plan report as a self-contained HTML page (inline styles, no scripts)
+ */
+export function renderPlanReportHtml(report: PlanReport): string {
+  const { progress } = report
+  const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0
+  const statusCounts = (Object.keys(STATUS_LABELS) as TaskStatus[])
+    .filter((status) => progress[status] > 0)
+    .map((status) => `${progress[status]} ${STATUS_LABELS[status].toLowerCase()}`)
+    .join(" · ")
+
+  const tasks = report.tasks
+    .map((task) => {
+      const description = task.description
+        ? `<p class="description">${escapeHtml(task.description).replace(/\n/g, "<br>")}</p>`
+        : ""
+      const subtasks = task.subtasks.length
+        ? `<ul class="subtasks">${task.subtasks
+            .map((sub) => `<li>${sub.completed ? "☑" : "☐"} ${escapeHtml(sub.title)}</li>`)
+            .join("")}</ul>`
+        : ""
+      const acceptance = task.acceptance.length
+        ? `<p class="label">Acceptance criteria</p><ul class="acceptance">${task.acceptance
+            .map((criterion) => `<li>${escapeHtml(criterion)}</li>`)
+            .join("")}</ul>`
+        : ""
+      const commits = task.commits.length
+        ? `<ul class="commits">${task.commits
+            .map(
+              (c) =>
+                `<li><code>${escapeHtml(c.sha.slice(0, 7))}</code> ${escapeHtml(c.subject)}</li>`,
+            )
+            .join("")}</ul>`
+        : ""
+      return `<li class="task ${task.status}">
+  <div class="heading"><span class="number">${task.number}.</span> <strong>${escapeHtml(task.title)}</strong> <span class="status">${STATUS_LABELS[task.status]}</span></div>
+  ${description}${subtasks}${acceptance}${commits}
+</li>`
+    })
+    .join("\n")
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+  .meta { color: #656d76; font-size: 0.9rem; }
+  .bar { background: #eaeef2; border-radius: 6px; height: 10px; overflow: hidden; margin: 0.5rem 0; }
+  .bar div { background: #1f883d; height: 100%; }
+  .overview { white-space: pre-wrap; }
+  ol.tasks { list-style: none; padding: 0; }
+  .task { border: 1px solid #d0d7de; border-left-width: 4px; border-radius: 6px; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+  .task.completed { border-left-color: #1f883d; }
+  .task.in_progress { border-left-color: #bf8700; }
+  .task.skipped { border-left-color: #8c959f; }
+  .task.blocked { border-left-color: #cf222e; }
+  .status { float: right; font-size: 0.8rem; color: #656d76; }
+  .number { color: #656d76; }
+  .description { margin: 0.5rem 0 0; }
+  ul.subtasks, ul.commits { margin: 0.5rem 0 0; padding-left: 1.25rem; list-style: none; }
+  ul.commits { font-size: 0.9rem; color: #656d76; }
+  .label { margin: 0.5rem 0 0; font-size: 0.8rem; font-weight: 600; color: #656d76; }
+  ul.acceptance { margin: 0.25rem 0 0; padding-left: 1.25rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">${escapeHtml(report.planFile)} · generated ${escapeHtml(report.generatedAt)}</p>
+<div class="bar"><div style="width: ${percent}%"></div></div>
+<p><strong>${progress.completed}/${progress.total} tasks complete (${percent}%)</strong>${statusCounts ? ` - ${statusCounts}` : ""}</p>
+${report.overview ? `<h2>Overview</h2>\n<p class="overview">${escapeHtml(report.overview)}</p>` : ""}
+<h2>Tasks</h2>
+<ol class="tasks">
+${tasks}
+</ol>
+</body>
+</html>
+`
+}
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test"
+import * as path from "node:path"
+import * as os from "node:os"
+import * as fs from "node:fs/promises"
+import { addWorktree, listWorktrees, markTaskCompleteAndCommit } from "./git"
+import { createGitTools } from "./git-tools"
+import { planFilePath, readPlanFile, worktreePathForPlan } from "./plan"
+import { runCommand } from "./utils"
+
+describe("worktrees", () => {
+  const plan = `# Plan
+
+## Tasks
+
+- [ ] **Add b**
+`
+
+  // A repository with one commit and an uncommitted plan, plus the worktree path
+  // nm-start would use for it
+  const createRepo = async (): Promise<{ dir: string; worktree: string }> => {
+    const dir = path.join(os.tmpdir(), `nelson-worktree-test-${Date.now()}`)
+    await fs.mkdir(dir, { recursive: true })
+    for (const args of [
+      ["init", "-q", "-b", "main"],
+      ["config", "user.email", "nelson@example.com"],
+      ["config", "user.name", "Nelson"],
+    ]) {
+      await runCommand(dir, "git", args)
+    }
+    await fs.writeFile(path.join(dir, "a.txt"), "a\n")
+    await runCommand(dir, "git", ["add", "-A"])
+    await runCommand(dir, "git", ["commit", "-q", "-m", "initial"])
+    await fs.writeFile(path.join(dir, "plan.md"), plan)
+    return { dir, worktree: worktreePathForPlan(dir, "plan.md") }
+  }
+
+  const cleanUp = async (dir: string, worktree: string) => {
+    await fs.rm(worktree, { recursive: true, force: true })
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+
+  const worktreeAction = (dir: string, action: "merge" | "discard") =>
+    createGitTools(dir)["nm-worktree"].execute({ action, file: "plan.md" }, {} as never)
+
+  test("names the worktree after the project and plan", () => {
+    expect(worktreePathForPlan("/work/my-app", ".opencode/plans/rest-api.md")).toBe(
+      "/work/my-app-nelson-rest-api",
+    )
+  })
+
+  test("creates a worktree with a copy of the plan, and reuses it", async () => {
+    const { dir, worktree } = await createRepo()
+    try {
+      const added = await addWorktree(dir, worktree, "nelson/plan", "plan.md")
+      expect(added).toEqual({
+        success: true,
+        message: `Created worktree ${worktree} on branch nelson/plan`,
+      })
+      expect(await listWorktrees(dir)).toContain(worktree)
+      expect(await Bun.file(path.join(worktree, "plan.md")).text()).toBe(plan)
+      expect((await runCommand(worktree, "git", ["branch", "--show-current"])).stdout.trim()).toBe(
+        "nelson/plan",
+      )
+
+      const again = await addWorktree(dir, worktree, "nelson/plan", "plan.md")
+      expect(again.message).toBe(`Reusing worktree ${worktree}`)
+    } finally {
+      await cleanUp(dir, worktree)
+    }
+  })
+
+  test("edits the worktree's copy of the plan", async () => {
+    const { dir, worktree } = await createRepo()
+    try {
+      expect(planFilePath(dir, "plan.md")).toBe(path.join(dir, "plan.md"))
+      await addWorktree(dir, worktree, "nelson/plan", "plan.md")
+      expect(planFilePath(dir, "plan.md")).toBe(path.join(worktree, "plan.md"))
+
+      await fs.writeFile(path.join(worktree, "b.txt"), "b\n")
+      const result = await markTaskCompleteAndCommit(dir, "plan.md", 1, true, { worktree })
+      expect(result.status).toBe("completed")
+      expect(await readPlanFile(dir, "plan.md")).toContain("- [x] **Add b**")
+      // The task's commit carries the plan, and the main checkout is left alone
+      expect((await runCommand(worktree, "git", ["status", "--porcelain"])).stdout).toBe("")
+      expect(await Bun.file(path.join(dir, "plan.md")).text()).toBe(plan)
+      expect((await runCommand(dir, "git", ["status", "--porcelain"])).stdout).toBe("?? plan.md\n")
+    } finally {
+      await cleanUp(dir, worktree)
+    }
+  })
+
+  test("merges the worktree's branch and plan, then removes it", async () => {
+    const { dir, worktree } = await createRepo()
+    try {
+      await addWorktree(dir, worktree, "nelson/plan", "plan.md")
+      await fs.writeFile(path.join(worktree, "b.txt"), "b\n")
+      await markTaskCompleteAndCommit(dir, "plan.md", 1, true, { worktree })
+
+      const merged = await worktreeAction(dir, "merge")
+      expect(merged).toBe(`✅ Merged nelson/plan into main and removed worktree ${worktree}.`)
+      expect(await listWorktrees(dir)).not.toContain(worktree)
+      expect(await Bun.file(path.join(dir, "b.txt")).text()).toBe("b\n")
+      expect(await readPlanFile(dir, "plan.md")).toContain("- [x] **Add b**")
+      expect((await runCommand(dir, "git", ["branch", "--list", "nelson/plan"])).stdout).toBe("")
+    } finally {
+      await cleanUp(dir, worktree)
+    }
+  })
+
+  test("discards the worktree and its branch", async () => {
+    const { dir, worktree } = await createRepo()
+    try {
+      await addWorktree(dir, worktree, "nelson/plan", "plan.md")
+      await fs.writeFile(path.join(worktree, "b.txt"), "b\n")
+      await markTaskCompleteAndCommit(dir, "plan.md", 1, true, { worktree })
+
+      const discarded = await worktreeAction(dir, "discard")
+      expect(discarded).toBe(`🗑 Discarded worktree ${worktree} and deleted branch nelson/plan.`)
+      expect(await listWorktrees(dir)).not.toContain(worktree)
+      expect(await Bun.file(path.join(dir, "b.txt")).exists()).toBe(false)
+      expect(await Bun.file(path.join(dir, "plan.md")).text()).toBe(plan)
+    } finally {
+      await cleanUp(dir, worktree)
+    }
+  })
+})
@@ -0,0 +1,409 @@
+import * as path from "node:path"
+import { unlink } from "node:fs/promises"
+import { tool } from "@opencode-ai/plugin"
+import type { PlanTask, TaskCommit } from "./types"
+import { listStates, findLoopForPlan, writeState } from "./state"
+import { runCommand } from "./utils"
+import { readJournal } from "./journal"
+import {
+  DEFAULT_PLAN_FILE,
+  resolvePlanFile,
+  readPlanFile,
+  writePlanFile,
+  parsePlanFile,
+  updateTaskStatus,
+  updateSubtaskStatus,
+  setTaskStatus,
+  isRunnableStatus,
+  setTaskSummary,
+  planFilePath,
+  worktreePathForPlan,
+} from "./plan"
+import {
+  getCurrentBranch,
+  listWorktrees,
+  findTaskCommit,
+  undoCommit,
+  readTaskCommits,
+  formatPlanSquashMessage,
+  squashPlanCommits,
+  isGitRepo,
+  planWorkDir,
+  getRepoRoot,
+} from "./git"
+import { undoCheckpoint } from "./checkpoint"
+
+/**
+ * Create git-related tools for Nelson Muntz
+ */
+export function createGitTools(directory: string) {
+  return {
+    "nm-worktree": tool({
+      description: `Merge or discard the git worktree a plan ran in (nm-start with worktree=true).
+
+- merge: merge the worktree's branch into the branch checked out here, then remove the
+  worktree and delete the branch
+- discard: remove the worktree and delete its branch, throwing away its commits
+
+The plan's loop must be finished or cancelled first.`,
+      args: {
+        action: tool.schema.enum(["merge", "discard"]).describe("What to do with the worktree"),
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Plan name (e.g., 'rest-api' or 'My API') - resolves to .opencode/plans/{slug}.md",
+          ),
+        file: tool.schema
+          .string()
+          .optional()
+          .describe(`Plan file path (default: ${DEFAULT_PLAN_FILE})`),
+      },
+      async execute(args) {
+        const git = (cwd: string, gitArgs: string[]) => runCommand(cwd, "git", gitArgs)
+
+        // Resolve plan file: name takes precedence over file, then default
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
+        const worktreePath = worktreePathForPlan(directory, planFile)
+
+        if (!(await listWorktrees(directory)).includes(path.resolve(worktreePath))) {
+          return `No worktree found for ${planFile} (expected ${worktreePath}).`
+        }
+
+        const states = await listStates(directory)
+        const loop = states.find((s) => s.worktree && path.resolve(s.worktree) === worktreePath)
+        if (loop) {
+          return `A Nelson loop for ${loop.planFile} is still ${loop.active ? "running" : "paused"} in this worktree. Use nm-cancel to stop it first.`
+        }
+
+        const branch = await getCurrentBranch(worktreePath)
+
+        if (args.action === "discard") {
+          const removed = await git(directory, ["worktree", "remove", "--force", worktreePath])
+          if (removed.code !== 0) {
+            return `Failed to remove worktree ${worktreePath}: ${removed.stderr.trim()}`
+          }
+          if (branch) {
+            await git(directory, ["branch", "-D", branch])
+          }
+          return `🗑 Discarded worktree ${worktreePath}${branch ? ` and deleted branch ${branch}` : ""}.`
+        }
+
+        if (!branch) {
+          return `The worktree at ${worktreePath} has no branch checked out, so there is nothing to merge.`
+        }
+
+        const status = await git(worktreePath, ["status", "--porcelain"])
+        if (status.stdout.trim() !== "") {
+          return `The worktree at ${worktreePath} has uncommitted changes. Commit or discard them first:\n${status.stdout.trimEnd()}`
+        }
+
+        // The plan was edited in the worktree, so an untracked or modified copy here is
+        // stale and would block the merge - set it aside until the merge is through
+        const mainPlan = path.join(directory, planFile)
+        const planStatus = await git(directory, ["status", "--porcelain", "--", planFile])
+        let stalePlan: string | null = null
+        if (!path.isAbsolute(planFile) && planStatus.stdout.trim()) {
+          stalePlan = await Bun.file(mainPlan).text()
+          if (planStatus.stdout.startsWith("??")) {
+            await unlink(mainPlan)
+          } else {
+            await git(directory, ["checkout", "HEAD", "--", planFile])
+          }
+        }
+
+        const targetBranch = await getCurrentBranch(directory)
+        const merged = await git(directory, ["merge", "--no-edit", branch])
+        if (merged.code !== 0) {
+          await git(directory, ["merge", "--abort"])
+          if (stalePlan !== null) await Bun.write(mainPlan, stalePlan)
+          return `Failed to merge ${branch} into ${targetBranch ?? "HEAD"} - the merge was aborted and the worktree kept:\n${(merged.stdout + merged.stderr).trim()}`
+        }
+
+        const removed = await git(directory, ["worktree", "remove", worktreePath])
+        if (removed.code !== 0) {
+          return `Merged ${branch} into ${targetBranch ?? "HEAD"}, but failed to remove worktree ${worktreePath}: ${removed.stderr.trim()}`
+        }
+        await git(directory, ["branch", "-d", branch])
+
+        return `✅ Merged ${branch} into ${targetBranch ?? "HEAD"} and removed worktree ${worktreePath}.`
+      },
+    }),
+
+    "nm-undo": tool({
+      description: `Undo a completed task: revert its git commit and uncheck it in the plan.
+
+The task's commit is found from the run journal or its Nelson-Task trailer, or failing
+that the newest of the plan's commits whose subject mentions "task N" (commits that
+were already reverted are skipped). It is undone with a revert commit (default), or with
+mode='reset' by dropping it from the branch (only if it is the latest commit).
+The task is then marked pending again, along with its subtasks.
+
+In a project without git, the files the task changed are restored from its checkpoint
+instead (mode is ignored).
+
+With requeue=true, a running or paused loop for the plan goes back to this task next.`,
+      args: {
+        task: tool.schema.string().describe("Task number (1, 2, 3...) or task name"),
+        mode: tool.schema
+          .enum(["revert", "reset"])
+          .optional()
+          .describe("'revert' (default) adds a revert commit; 'reset' drops the commit"),
+        requeue: tool.schema
+          .boolean()
+          .optional()
+          .describe("Make an active or paused loop for this plan run the task next"),
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Plan name (e.g., 'rest-api' or 'My API') - resolves to .opencode/plans/{slug}.md",
+          ),
+        file: tool.schema
+          .string()
+          .optional()
+          .describe(`Plan file path (default: ${DEFAULT_PLAN_FILE})`),
+      },
+      async execute(args) {
+        // Resolve plan file: name takes precedence over file, then default
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
+        const content = await readPlanFile(directory, planFile)
+        if (!content) {
+          return `No plan file found at ${planFile}.`
+        }
+
+        const plan = parsePlanFile(content)
+        let taskNum = parseInt(args.task, 10)
+        if (isNaN(taskNum) || taskNum < 1 || taskNum > plan.tasks.length) {
+          taskNum =
+            plan.tasks.findIndex((t) => t.title.toLowerCase().includes(args.task.toLowerCase())) + 1
+        }
+        const task = plan.tasks[taskNum - 1]
+        if (!task) {
+          return `Task "${args.task}" not found.`
+        }
+        if (task.status !== "completed") {
+          return `Task ${taskNum} (${task.title}) is not complete, so there is nothing to undo.`
+        }
+
+        const workDir = await planWorkDir(directory, planFile)
+
+        let undoneMessage: string
+        if (!(await isGitRepo(workDir))) {
+          // No git: restore the files from the task's checkpoint instead
+          const undone = await undoCheckpoint(directory, planFile, task.id)
+          if (!undone.success) {
+            return undone.message
+          }
+          undoneMessage = undone.message
+        } else {
+          const journalShas = (await readJournal(directory, { planFile }))
+            .filter((e) => e.taskNum === taskNum && e.taskTitle === task.title && e.commitSha)
+            .map((e) => e.commitSha as string)
+          const commit = await findTaskCommit(workDir, taskNum, journalShas, {
+            planFile,
+            taskId: task.id,
+          })
+          if (!commit) {
+            return `Couldn't find a commit for task ${taskNum} (${task.title}). If it was never committed, use nm-skip with status='pending' to uncheck it.`
+          }
+
+          if ((await readTaskCommits(workDir)).some((c) => c.sha === commit.sha && c.squashed)) {
+            return `Task ${taskNum} is part of squashed commit ${commit.sha.slice(0, 7)} ("${commit.subject}"), which covers other tasks too. Undo it by hand.`
+          }
+
+          // The plan is updated below, so the revert leaves it alone
+          const root = (await getRepoRoot(workDir)) ?? workDir
+          const undone = await undoCommit(workDir, commit.sha, args.mode || "revert", [
+            path.relative(root, planFilePath(directory, planFile)),
+          ])
+          if (!undone.success) {
+            return undone.message
+          }
+          undoneMessage = `${undone.message} ("${commit.subject}")`
+        }
+
+        let updatedContent = updateTaskStatus(content, task.id, plan.tasks, "pending")
+        for (const sub of task.subtasks ?? []) {
+          updatedContent = updateSubtaskStatus(updatedContent, sub, false)
+        }
+        updatedContent = setTaskSummary(updatedContent, task, null)
+        await writePlanFile(directory, planFile, updatedContent)
+
+        let output = `↩️ ${undoneMessage} and marked task ${taskNum} pending: ${task.title}`
+
+        const loop = await findLoopForPlan(directory, planFile, null)
+        if (args.requeue) {
+          if (!loop) {
+            output += `\n\nNo loop is running ${planFile}, so nothing was re-queued. Use nm-start to run it.`
+          } else if (loop.active) {
+            loop.requeuedTaskNum = taskNum
+            await writeState(directory, loop.sessionId, loop)
+            output += `\n\nThe running loop will work on task ${taskNum} next.`
+          } else {
+            // A paused loop resumes on its current task, so point that at the undone one
+            if (loop.currentTaskNum && loop.currentTaskNum !== taskNum) {
+              await setTaskStatus(directory, planFile, loop.currentTaskNum, "pending")
+            }
+            loop.currentTaskNum = taskNum
+            loop.currentTaskId = task.id
+            loop.verifyFailure = null
+            await writeState(directory, loop.sessionId, loop)
+            output += `\n\nThe paused loop will resume on task ${taskNum}.`
+          }
+        } else if (loop) {
+          output += `\n\nThe loop for ${planFile} will pick it up again in its normal order.`
+        }
+
+        return output
+      },
+    }),
+
+    "nm-finish": tool({
+      description: `Squash a finished plan's task commits into a single commit.
+
+The commit's subject is the plan title and its body lists each completed task's title
+and description. The plan's task commits must be the latest commits on the branch,
+and every task must be complete, skipped or blocked.`,
+      args: {
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Plan name (e.g., 'rest-api' or 'My API') - resolves to .opencode/plans/{slug}.md",
+          ),
+        file: tool.schema
+          .string()
+          .optional()
+          .describe(`Plan file path (default: ${DEFAULT_PLAN_FILE})`),
+      },
+      async execute(args) {
+        // Resolve plan file: name takes precedence over file, then default
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
+        const content = await readPlanFile(directory, planFile)
+        if (!content) {
+          return `No plan file found at ${planFile}.`
+        }
+        const plan = parsePlanFile(content)
+
+        const loop = await findLoopForPlan(directory, planFile, null)
+        if (loop) {
+          return `A Nelson loop is still ${loop.active ? "running" : "paused"} for ${planFile}. Let it finish, or use nm-cancel first.`
+        }
+        const remaining = plan.tasks.filter((t) => isRunnableStatus(t.status))
+        if (remaining.length > 0) {
+          return `${planFile} still has ${remaining.length} unfinished task(s): ${remaining.map((t) => t.title).join(", ")}`
+        }
+
+        const message = formatPlanSquashMessage(plan, planFile, plan.settings.commitPrefix)
+        const result = await squashPlanCommits(
+          await planWorkDir(directory, planFile),
+          planFile,
+          message,
+        )
+        if (!result.success) {
+          return `Could not squash ${planFile}: ${result.message}`
+        }
+        return `✅ ${result.message} (${result.sha?.slice(0, 7)})`
+      },
+    }),
+
+    "nm-reconcile": tool({
+      description: `Rebuild a plan's progress from git history and report mismatches.
+
+Task commits carry Nelson-Plan / Nelson-Task / Nelson-Iteration trailers. This reads
+them from git log (ignoring reverted commits) and compares them with the plan:
+- tasks checked in the plan with no commit
+- tasks with a commit that are not checked in the plan
+- commits for task IDs that are no longer in the plan
+
+With apply=true, tasks that have a commit but are not checked are marked complete.`,
+      args: {
+        apply: tool.schema
+          .boolean()
+          .optional()
+          .describe("Check off tasks that have a commit but are unchecked in the plan"),
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Plan name (e.g., 'rest-api' or 'My API') - resolves to .opencode/plans/{slug}.md",
+          ),
+        file: tool.schema
+          .string()
+          .optional()
+          .describe(`Plan file path (default: ${DEFAULT_PLAN_FILE})`),
+      },
+      async execute(args) {
+        // Resolve plan file: name takes precedence over file, then default
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
+        let content = await readPlanFile(directory, planFile)
+        if (!content) {
+          return `No plan file found at ${planFile}.`
+        }
+        const plan = parsePlanFile(content)
+
+        // Newest commit per task ID
+        const commits = new Map<string, TaskCommit>()
+        for (const commit of await readTaskCommits(await planWorkDir(directory, planFile))) {
+          if (commit.planFile === planFile && !commits.has(commit.taskId)) {
+            commits.set(commit.taskId, commit)
+          }
+        }
+
+        let output = `📜 Progress of ${planFile} from git history\n\n`
+        const mismatches: string[] = []
+        const toCheck: PlanTask[] = []
+        plan.tasks.forEach((task, i) => {
+          const commit = commits.get(task.id)
+          const ref = commit
+            ? ` - ${commit.sha.slice(0, 7)}${commit.iteration ? ` (iteration ${commit.iteration})` : ""}`
+            : ""
+          output += `${String(i + 1).padStart(2, " ")}. ${commit ? "[x]" : "[ ]"} ${task.title}${ref}\n`
+
+          if (task.status === "completed" && !commit) {
+            mismatches.push(`Task ${i + 1} is checked in the plan but has no commit`)
+          } else if (task.status !== "completed" && commit) {
+            mismatches.push(
+              `Task ${i + 1} has commit ${commit.sha.slice(0, 7)} but is ${task.status} in the plan`,
+            )
+            toCheck.push(task)
+          }
+        })
+        const taskIds = new Set(plan.tasks.map((t) => t.id))
+        for (const commit of commits.values()) {
+          if (!taskIds.has(commit.taskId)) {
+            mismatches.push(
+              `Commit ${commit.sha.slice(0, 7)} is for task "${commit.taskId}", which is not in the plan`,
+            )
+          }
+        }
+
+        output += `\nCommitted: ${plan.tasks.filter((t) => commits.has(t.id)).length}/${plan.tasks.length} tasks\n`
+        if (mismatches.length === 0) {
+          return output + `\n✅ The plan matches git history.`
+        }
+        output += `\n⚠️ Mismatches:\n${mismatches.map((m) => `- ${m}`).join("\n")}\n`
+        output += `\n(Tasks completed with nm-task or commit=false have no commit - that is expected.)`
+
+        if (args.apply && toCheck.length > 0) {
+          for (const task of toCheck) {
+            content = updateTaskStatus(content, task.id, plan.tasks, "completed")
+          }
+          await writePlanFile(directory, planFile, content)
+          output += `\n\n✓ Checked off ${toCheck.length} task(s) that have commits.`
+        }
+
+        return output
+      },
+    }),
+  }
+}
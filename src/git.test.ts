@@ -0,0 +1,460 @@
+import { describe, expect, test } from "bun:test"
+import * as path from "node:path"
+import * as os from "node:os"
+import * as fs from "node:fs/promises"
+import {
+  formatCommitMessage,
+  validateCommitSubject,
+  findTaskCommit,
+  undoCommit,
+  snapshotDirtyPaths,
+  createGitCommit,
+  readTaskCommits,
+  formatPlanSquashMessage,
+  squashPlanCommits,
+  markTaskCompleteAndCommit,
+  checkoutBranch,
+  getCurrentBranch,
+} from "./git"
+import { parsePlanFile } from "./plan"
+import { createPlanTools } from "./plan-tools"
+import { readState } from "./state"
+import { runCommand } from "./utils"
+
+describe("formatCommitMessage", () => {
+  const plan = parsePlanFile(`# Plan
+
+## Tasks
+
+- [ ] **Add the parser** - Parse plan files into tasks
+- [ ] **Fix the date parser**
+      type: \`fix\`
+      <!-- scope: parser -->
+      Dates were off by one
+`)
+
+  test("uses the default template", () => {
+    expect(formatCommitMessage(plan.tasks[0], 1)).toEqual({
+      subject: "feat(nelson): task 1 - Add the parser",
+      body: "Parse plan files into tasks",
+    })
+  })
+
+  test("fills in task type, scope and plan placeholders", () => {
+    const message = formatCommitMessage(plan.tasks[1], 2, {
+      template: "{type}({scope}): {title} [{plan}#{num}] {description}",
+      planName: "dates",
+    })
+    expect(message.subject).toBe("fix(parser): Fix the date parser [dates#2] Dates were off by one")
+    expect(message.body).toBeNull()
+  })
+
+  test("drops an empty scope", () => {
+    const message = formatCommitMessage(plan.tasks[0], 1, { template: "{type}({scope}): {title}" })
+    expect(message.subject).toBe("feat: Add the parser")
+  })
+
+  test("keeps parentheses in the title", () => {
+    const task = { ...plan.tasks[0], title: "Add parse() to utils" }
+    expect(formatCommitMessage(task, 1).subject).toBe("feat(nelson): task 1 - Add parse() to utils")
+    expect(formatCommitMessage(task, 1, { template: "{type}({scope}): {title}" }).subject).toBe(
+      "feat: Add parse() to utils",
+    )
+  })
+
+  test("validates the subject length", () => {
+    expect(validateCommitSubject("feat: short", 72)).toBeNull()
+    expect(validateCommitSubject("feat: a longer subject", 10)).toContain("max 10")
+    expect(validateCommitSubject("feat: no limit")).toBeNull()
+  })
+})
+
+describe("task commits", () => {
+  const createRepo = async (): Promise<string> => {
+    const dir = path.join(os.tmpdir(), `nelson-git-test-${Date.now()}`)
+    await fs.mkdir(dir, { recursive: true })
+    for (const args of [
+      ["init", "-q"],
+      ["config", "user.email", "nelson@example.com"],
+      ["config", "user.name", "Nelson"],
+    ]) {
+      await runCommand(dir, "git", args)
+    }
+    return dir
+  }
+
+  const commitFile = async (dir: string, name: string, subject: string): Promise<string> => {
+    await fs.writeFile(path.join(dir, name), subject)
+    await runCommand(dir, "git", ["add", "-A"])
+    await runCommand(dir, "git", ["commit", "-q", "-m", subject])
+    return (await runCommand(dir, "git", ["rev-parse", "HEAD"])).stdout.trim()
+  }
+
+  test("leaves pre-existing changes out of task commits", async () => {
+    const dir = await createRepo()
+    try {
+      await commitFile(dir, "a.txt", "initial")
+      await fs.writeFile(path.join(dir, "staged.txt"), "staged before the loop")
+      await runCommand(dir, "git", ["add", "staged.txt"])
+      await fs.writeFile(path.join(dir, "wip.txt"), "my work in progress")
+      const snapshot = await snapshotDirtyPaths(dir)
+      expect(Object.keys(snapshot).sort()).toEqual(["staged.txt", "wip.txt"])
+
+      await fs.writeFile(path.join(dir, "task.txt"), "task output")
+      const result = await createGitCommit(dir, { subject: "task 1", body: null }, snapshot)
+      expect(result.success).toBe(true)
+      expect(result.excluded?.sort()).toEqual(["staged.txt", "wip.txt"])
+
+      const files = await runCommand(dir, "git", ["show", "--name-only", "--format=", "HEAD"])
+      expect(files.stdout.trim()).toBe("task.txt")
+      const staged = await runCommand(dir, "git", ["diff", "--cached", "--name-only"])
+      expect(staged.stdout.trim()).toBe("staged.txt")
+      expect(
+        (await createGitCommit(dir, { subject: "task 2", body: null }, snapshot)).message,
+      ).toContain("only pre-existing changes")
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("reads task commits back from their trailers, skipping reverted ones", async () => {
+    const dir = await createRepo()
+    try {
+      await commitFile(dir, "a.txt", "initial")
+      for (const [file, taskId] of [
+        ["b.txt", "setup"],
+        ["c.txt", "api"],
+      ]) {
+        await fs.writeFile(path.join(dir, file), taskId)
+        await createGitCommit(dir, {
+          subject: `task ${taskId}`,
+          body: null,
+          trailers: { "Nelson-Plan": "plan.md", "Nelson-Task": taskId, "Nelson-Iteration": "2" },
+        })
+      }
+
+      const commits = await readTaskCommits(dir)
+      expect(commits.map((c) => c.taskId)).toEqual(["api", "setup"])
+      expect(commits[0]).toMatchObject({ planFile: "plan.md", iteration: 2 })
+
+      await undoCommit(dir, commits[1].sha, "revert")
+      expect((await readTaskCommits(dir)).map((c) => c.taskId)).toEqual(["api"])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("squashes a plan's task commits into one", async () => {
+    const dir = await createRepo()
+    try {
+      await commitFile(dir, "a.txt", "initial")
+      const plan = parsePlanFile(`# Todo API
+
+## Tasks
+
+- [x] **Add model**
+      Store todos in SQLite
+- [x] **Add routes**
+`)
+      const commitTask = async (file: string, taskId: string) => {
+        await fs.writeFile(path.join(dir, file), taskId)
+        await createGitCommit(dir, {
+          subject: `task ${taskId}`,
+          body: null,
+          trailers: { "Nelson-Plan": "plan.md", "Nelson-Task": taskId },
+        })
+      }
+      await commitTask("b.txt", "task-1")
+      await commitTask("c.txt", "task-2")
+
+      const message = formatPlanSquashMessage(plan, "plan.md")
+      expect(message.subject).toBe("feat(nelson): Todo API")
+      expect(message.body).toBe("- Add model\n  Store todos in SQLite\n- Add routes")
+
+      const result = await squashPlanCommits(dir, "plan.md", message)
+      expect(result.success).toBe(true)
+      const count = await runCommand(dir, "git", ["rev-list", "--count", "HEAD"])
+      expect(count.stdout.trim()).toBe("2")
+      const commits = await readTaskCommits(dir)
+      expect(commits.map((c) => [c.taskId, c.squashed])).toEqual([
+        ["task-1", true],
+        ["task-2", true],
+      ])
+
+      // Anything else on top blocks the squash
+      await commitFile(dir, "d.txt", "unrelated")
+      expect((await squashPlanCommits(dir, "plan.md", message)).success).toBe(false)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("commits a change summary under the completed task with the task", async () => {
+    const dir = await createRepo()
+    try {
+      await fs.writeFile(path.join(dir, "plan.md"), "# Plan\n\n## Tasks\n\n- [~] **Add b**\n")
+      await commitFile(dir, "a.txt", "initial")
+      await fs.writeFile(path.join(dir, "b.txt"), "one\ntwo\n")
+
+      const result = await markTaskCompleteAndCommit(dir, "plan.md", 1, true)
+      expect(result.status).toBe("completed")
+      const plan = await Bun.file(path.join(dir, "plan.md")).text()
+      expect(plan).toContain('> Commit "feat(nelson): task 1 - Add b": 1 file(s) changed, +2 -0')
+      expect(plan).toContain("> - `b.txt` (+2 -0)")
+      // The summary went into the task's own commit, leaving nothing behind
+      expect((await runCommand(dir, "git", ["status", "--porcelain"])).stdout).toBe("")
+      const committed = await runCommand(dir, "git", ["show", "HEAD:plan.md"])
+      expect(committed.stdout).toBe(plan)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("commits the task without a summary when the plan is ignored", async () => {
+    const dir = await createRepo()
+    try {
+      const planFile = ".opencode/plans/x.md"
+      await fs.writeFile(path.join(dir, ".gitignore"), ".opencode/\n")
+      await commitFile(dir, "a.txt", "initial")
+      await fs.mkdir(path.join(dir, ".opencode/plans"), { recursive: true })
+      await fs.writeFile(path.join(dir, planFile), "# Plan\n\n## Tasks\n\n- [~] **Add b**\n")
+      await fs.writeFile(path.join(dir, "wip.txt"), "my work in progress")
+
+      for (const dirtySnapshot of [await snapshotDirtyPaths(dir), null]) {
+        await fs.writeFile(path.join(dir, "b.txt"), `b ${dirtySnapshot ? 1 : 2}\n`)
+        const result = await markTaskCompleteAndCommit(dir, planFile, 1, true, { dirtySnapshot })
+        expect(result.status).toBe("completed")
+        expect(result.commitResult?.success).toBe(true)
+        const files = await runCommand(dir, "git", ["show", "--name-only", "--format=", "HEAD"])
+        expect(files.stdout).toContain("b.txt")
+        expect(await Bun.file(path.join(dir, planFile)).text()).not.toContain("nelson:summary")
+      }
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("keeps a task open until every acceptance criterion is met", async () => {
+    const dir = await createRepo()
+    try {
+      await commitFile(dir, "a.txt", "initial")
+      await fs.writeFile(
+        path.join(dir, "plan.md"),
+        "# Plan\n\n## Tasks\n\n- [~] **Add b**\n  Acceptance:\n  - b.txt exists\n  - b.txt has two lines\n",
+      )
+      await fs.writeFile(path.join(dir, "b.txt"), "one\n")
+
+      const unmet = await markTaskCompleteAndCommit(dir, "plan.md", 1, true, {
+        acceptance: [{ num: 1, met: true, note: null }],
+      })
+      expect(unmet.status).toBe("in_progress")
+      expect(unmet.unmetCriteria).toEqual(["2. b.txt has two lines (not reported)"])
+
+      const unreported = await markTaskCompleteAndCommit(dir, "plan.md", 1, true, {
+        acceptance: null,
+      })
+      expect(unreported.unmetCriteria).toHaveLength(2)
+
+      await fs.writeFile(path.join(dir, "b.txt"), "one\ntwo\n")
+      const met = await markTaskCompleteAndCommit(dir, "plan.md", 1, true, {
+        acceptance: [
+          { num: 1, met: true, note: null },
+          { num: 2, met: true, note: null },
+        ],
+      })
+      expect(met.status).toBe("completed")
+      expect(met.unmetCriteria).toBeUndefined()
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("keeps a task open when a hook rejects its commit", async () => {
+    const dir = await createRepo()
+    // Hooks can be switched off through GIT_CONFIG_* in the environment (e.g. in CI)
+    const gitConfigCount = process.env.GIT_CONFIG_COUNT
+    delete process.env.GIT_CONFIG_COUNT
+    try {
+      await commitFile(dir, "a.txt", "initial")
+      const hook = path.join(dir, ".git", "hooks", "pre-commit")
+      await fs.writeFile(hook, "#!/bin/sh\necho 'lint failed: a.txt'\nexit 1\n")
+      await fs.chmod(hook, 0o755)
+      const planFile = "plan.md"
+      await fs.writeFile(path.join(dir, planFile), "# Plan\n\n## Tasks\n\n- [~] **Lint**\n")
+
+      const result = await markTaskCompleteAndCommit(dir, planFile, 1, true)
+      expect(result.status).toBe("in_progress")
+      expect(result.commitResult?.rejected).toBe(true)
+      expect(result.commitResult?.output).toContain("lint failed")
+      expect(await Bun.file(path.join(dir, planFile)).text()).toContain("- [~] **Lint**")
+    } finally {
+      if (gitConfigCount !== undefined) process.env.GIT_CONFIG_COUNT = gitConfigCount
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("keeps a task open when its commit subject is too long", async () => {
+    const dir = await createRepo()
+    try {
+      await commitFile(dir, "a.txt", "initial")
+      const planFile = "plan.md"
+      const content =
+        "---\ncommit_max_length: 40\n---\n# Plan\n\n## Tasks\n\n- [~] **Rename every module in the project**\n"
+      await fs.writeFile(path.join(dir, planFile), content)
+      await fs.writeFile(path.join(dir, "b.txt"), "renamed")
+
+      const result = await markTaskCompleteAndCommit(dir, planFile, 1, true)
+      expect(result.status).toBe("in_progress")
+      expect(result.commitResult?.rejected).toBe(true)
+      expect(result.commitResult?.message).toContain("(max 40)")
+      expect(await Bun.file(path.join(dir, planFile)).text()).toBe(content)
+      expect((await runCommand(dir, "git", ["rev-list", "--count", "HEAD"])).stdout.trim()).toBe(
+        "1",
+      )
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("finds a task commit by SHA or subject and reverts it", async () => {
+    const dir = await createRepo()
+    try {
+      const first = await commitFile(dir, "a.txt", "feat(nelson): task 1 - First")
+      await commitFile(dir, "b.txt", "feat(nelson): task 2 - Second")
+
+      expect((await findTaskCommit(dir, 1, [first]))?.sha).toBe(first)
+      expect((await findTaskCommit(dir, 1))?.subject).toBe("feat(nelson): task 1 - First")
+      expect(await findTaskCommit(dir, 3)).toBeNull()
+
+      // Only the latest commit can be reset away
+      expect((await undoCommit(dir, first, "reset")).success).toBe(false)
+      expect((await undoCommit(dir, first, "revert")).success).toBe(true)
+      expect(await Bun.file(path.join(dir, "a.txt")).exists()).toBe(false)
+      expect(await Bun.file(path.join(dir, "b.txt")).exists()).toBe(true)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("only finds a plan's own commits that haven't been reverted", async () => {
+    const dir = await createRepo()
+    try {
+      const commit = async (name: string, subject: string, planFile: string) => {
+        await fs.writeFile(path.join(dir, name), subject)
+        const message = { subject, body: null, trailers: { "Nelson-Plan": planFile } }
+        return (await createGitCommit(dir, message)).sha!
+      }
+      const ours = await commit("a.txt", "feat(nelson): task 1 - Ours", "ours.md")
+      const other = await commit("b.txt", "feat(nelson): task 1 - Theirs", "theirs.md")
+      const trailers = { planFile: "ours.md", taskId: "missing" }
+
+      expect((await findTaskCommit(dir, 1, [], trailers))?.sha).toBe(ours)
+      expect((await findTaskCommit(dir, 1, [other], trailers))?.sha).toBe(other)
+
+      // Once reverted, neither the commit nor the revert ("Revert ... task 1 ...") counts
+      expect((await undoCommit(dir, ours, "revert")).success).toBe(true)
+      expect(await findTaskCommit(dir, 1, [ours], trailers)).toBeNull()
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("runs a plan on its own branch", async () => {
+    const dir = await createRepo()
+    try {
+      await fs.writeFile(path.join(dir, "plan.md"), "# Plan\n\n## Tasks\n\n- [ ] **Add b**\n")
+      await commitFile(dir, "a.txt", "initial")
+      const start = (args: Record<string, unknown>) =>
+        createPlanTools(dir)["nm-start"].execute(
+          { file: "plan.md", ...args } as never,
+          { sessionID: "ses-1" } as never,
+        )
+
+      await start({ createBranch: true })
+      expect(await getCurrentBranch(dir)).toBe("nelson/plan")
+      expect((await readState(dir, "ses-1"))?.branch).toBe("nelson/plan")
+
+      // An existing branch is switched to rather than created again
+      await runCommand(dir, "git", ["checkout", "-q", "-"])
+      expect(await checkoutBranch(dir, "nelson/plan")).toEqual({
+        success: true,
+        message: "Switched to branch nelson/plan",
+      })
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("refuses to start on a protected branch", async () => {
+    const dir = await createRepo()
+    try {
+      await fs.writeFile(path.join(dir, "plan.md"), "# Plan\n\n## Tasks\n\n- [ ] **Add b**\n")
+      await fs.mkdir(path.join(dir, ".opencode"))
+      await fs.writeFile(
+        path.join(dir, ".opencode/nelson.json"),
+        JSON.stringify({ protectedBranches: ["main", "master"] }),
+      )
+      await commitFile(dir, "a.txt", "initial")
+      const branch = await getCurrentBranch(dir)
+
+      const result = await createPlanTools(dir)["nm-start"].execute(
+        { file: "plan.md" } as never,
+        { sessionID: "ses-1" } as never,
+      )
+      expect(result).toStartWith(`Cannot start loop - "${branch}" is a protected branch`)
+      expect(await readState(dir, "ses-1")).toBeNull()
+      expect(await getCurrentBranch(dir)).toBe(branch)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("doesn't commit or check a task off on the wrong branch", async () => {
+    const dir = await createRepo()
+    try {
+      await fs.writeFile(path.join(dir, "plan.md"), "# Plan\n\n## Tasks\n\n- [~] **Add b**\n")
+      await commitFile(dir, "a.txt", "initial")
+      await fs.writeFile(path.join(dir, "b.txt"), "b")
+
+      const result = await markTaskCompleteAndCommit(dir, "plan.md", 1, true, {
+        branch: "nelson/plan",
+      })
+      expect(result.status).toBe("in_progress")
+      expect(result.commitResult).toMatchObject({ success: false, branchMismatch: true })
+      expect(result.commitResult?.message).toStartWith("Expected branch nelson/plan but ")
+      expect((await runCommand(dir, "git", ["rev-list", "--count", "HEAD"])).stdout.trim()).toBe(
+        "1",
+      )
+      expect(await Bun.file(path.join(dir, "plan.md")).text()).toContain("- [~] **Add b**")
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("reverts an earlier task without touching the plan", async () => {
+    const dir = await createRepo()
+    try {
+      const planPath = path.join(dir, "plan.md")
+      await fs.writeFile(planPath, "# Plan\n\n## Tasks\n\n- [~] **One**\n- [ ] **Two**\n")
+      await commitFile(dir, "a.txt", "initial")
+      await fs.writeFile(path.join(dir, "one.txt"), "one")
+      const first = await markTaskCompleteAndCommit(dir, "plan.md", 1, true)
+      await fs.writeFile(
+        planPath,
+        (await Bun.file(planPath).text()).replace("[ ] **Two", "[~] **Two"),
+      )
+      await fs.writeFile(path.join(dir, "two.txt"), "two")
+      await markTaskCompleteAndCommit(dir, "plan.md", 2, true)
+
+      // Both tasks' summaries sit next to each other, and the plan has uncommitted edits
+      const plan = (await Bun.file(planPath).text()) + "\n## Notes\n"
+      await fs.writeFile(planPath, plan)
+      const undone = await undoCommit(dir, first.commitResult!.sha!, "revert", ["plan.md"])
+      expect(undone.success).toBe(true)
+      expect(await Bun.file(path.join(dir, "one.txt")).exists()).toBe(false)
+      expect(await Bun.file(planPath).text()).toBe(plan)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -1,96 +1,718 @@
-import { readPlanFile, writePlanFile, parsePlanFile, updateTaskStatus } from "./plan"
+import * as path from "node:path"
+import { mkdir } from "node:fs/promises"
+import type {
+  AcceptanceResult,
+  CommitMessage,
+  CommitResult,
+  FileStats,
+  ParsedPlan,
+  PlanTask,
+  TaskCommit,
+  TaskCompletionResult,
+  VerifyResult,
+} from "./types"
+import {
+  readPlanFile,
+  writePlanFile,
+  parsePlanFile,
+  updateTaskStatus,
+  getPendingSubtasks,
+  setTaskSummary,
+  planSlug,
+  planFilePath,
+  worktreePathForPlan,
+} from "./plan"
+import { runCommand } from "./utils"
+import { runVerification } from "./verify"
+import { readConfig } from "./config"
+import { createCheckpoint } from "./checkpoint"
+
+export const DEFAULT_COMMIT_PREFIX = "feat(nelson)"
+
+export const DEFAULT_COMMIT_TEMPLATE = "{prefix}: task {num} - {title}"
 
 /**
- * Create a git commit for a completed task
+ * How many times in a row a task's commit may be rejected before the loop stops
  */
-export async function createGitCommit(
-  directory: string,
-  taskTitle: string,
+export const DEFAULT_MAX_COMMIT_ATTEMPTS = 3
+
+/**
+ * Trailer keys added to every task commit, so tooling can map commits back to plans
+ */
+export const NELSON_TRAILERS = {
+  plan: "Nelson-Plan",
+  task: "Nelson-Task",
+  iteration: "Nelson-Iteration",
+}
+
+/**
+ * Render the commit message for a task from a template.
+ *
+ * Placeholders: {prefix}, {type} (task's `type:`, default "feat"), {scope} (task's
+ * `scope:`), {num}, {id}, {title}, {description} and {plan} (the plan's slug). An empty
+ * "()" left by a missing scope is dropped, so "{type}({scope}): {title}" renders as
+ * "fix: ..." for a task without a scope.
+ */
+export function formatCommitMessage(
+  task: PlanTask,
   taskNum: number,
-): Promise<{ success: boolean; message: string }> {
-  const { spawn } = await import("node:child_process")
-
-  // Helper to run a command and get output
-  const runCommand = (
-    cmd: string,
-    args: string[],
-  ): Promise<{ code: number; stdout: string; stderr: string }> => {
-    return new Promise((resolve) => {
-      const proc = spawn(cmd, args, { cwd: directory })
-      let stdout = ""
-      let stderr = ""
-      proc.stdout?.on("data", (data) => (stdout += data.toString()))
-      proc.stderr?.on("data", (data) => (stderr += data.toString()))
-      proc.on("close", (code) => resolve({ code: code ?? 1, stdout, stderr }))
-      proc.on("error", () => resolve({ code: 1, stdout, stderr: "Command failed to spawn" }))
-    })
+  options: { template?: string | null; prefix?: string | null; planName?: string } = {},
+): CommitMessage {
+  // Task titles may be in formats like:
+  //   "**Create file** - description"  (with ** markers)
+  //   "Create file** - description"    (trailing ** from parser)
+  //   "Create file - description"      (plain text)
+  // The heading (before " - ") goes in the subject, the rest becomes the body
+  const cleanTitle = task.title.replace(/\*\*/g, "").trim()
+  const separatorIdx = cleanTitle.indexOf(" - ")
+  const heading = separatorIdx !== -1 ? cleanTitle.slice(0, separatorIdx).trim() : cleanTitle
+  const body = separatorIdx !== -1 ? cleanTitle.slice(separatorIdx + 3).trim() : ""
+
+  const values: Record<string, string> = {
+    prefix: options.prefix || DEFAULT_COMMIT_PREFIX,
+    type: task.commitType || "feat",
+    scope: task.commitScope || "",
+    num: String(taskNum),
+    id: task.id,
+    title: heading,
+    description: body || task.description.split("\n")[0],
+    plan: options.planName || "",
+  }
+  // "({scope})" is dropped as a whole when there is no scope
+  const subject = (options.template || DEFAULT_COMMIT_TEMPLATE)
+    .replace(/\(\{scope\}\)|\{(\w+)\}/g, (match, name?: string) =>
+      name ? (values[name] ?? match) : values.scope && `(${values.scope})`,
+    )
+    .replace(/\s+/g, " ")
+    .trim()
+
+  return { subject, body: body || null }
+}
+
+/**
+ * Check a rendered commit subject against the configured maximum length
+ *
+ * @returns An error message, or null if the subject is fine (or there is no limit)
+ */
+export function validateCommitSubject(subject: string, maxLength?: number | null): string | null {
+  if (!maxLength || subject.length <= maxLength) return null
+  return `Commit subject is ${subject.length} characters (max ${maxLength}): "${subject}"`
+}
+
+/**
+ * Check whether `directory` is inside a git repository
+ */
+export async function isGitRepo(directory: string): Promise<boolean> {
+  const result = await runCommand(directory, "git", ["rev-parse", "--git-dir"])
+  return result.code === 0
+}
+
+/**
+ * Get the top-level directory of the repository containing `directory`
+ */
+export async function getRepoRoot(directory: string): Promise<string | null> {
+  const result = await runCommand(directory, "git", ["rev-parse", "--show-toplevel"])
+  return result.code === 0 ? result.stdout.trim() : null
+}
+
+/**
+ * List every path with uncommitted changes, relative to the repository root (including
+ * untracked files and both sides of a rename)
+ */
+async function listDirtyPaths(directory: string): Promise<string[]> {
+  const result = await runCommand(directory, "git", [
+    "status",
+    "--porcelain",
+    "-z",
+    "--untracked-files=all",
+  ])
+  if (result.code !== 0) return []
+
+  const paths: string[] = []
+  const entries = result.stdout.split("\0")
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    if (entry.length < 4) continue
+    paths.push(entry.slice(3))
+    // Renames and copies are followed by their original path
+    if (/[RC]/.test(entry.slice(0, 2))) {
+      paths.push(entries[++i])
+    }
   }
+  return paths
+}
+
+/**
+ * Record the content of every uncommitted path (its blob hash, or "" if deleted), keyed
+ * by path relative to the repository root, so changes that were already there can
+ * later be told apart from new ones
+ */
+export async function snapshotDirtyPaths(directory: string): Promise<Record<string, string>> {
+  const root = await getRepoRoot(directory)
+  if (!root) return {}
+
+  const snapshot: Record<string, string> = {}
+  for (const file of await listDirtyPaths(root)) {
+    const hash = await runCommand(root, "git", ["hash-object", "--", file])
+    snapshot[file] = hash.code === 0 ? hash.stdout.trim() : ""
+  }
+  return snapshot
+}
+
+/**
+ * Build `git commit` arguments for a message. Git commit format: subject line (short),
+ * blank line, body (details), blank line, trailers ("Key: value" lines tooling can parse)
+ */
+function commitArgs(message: CommitMessage): string[] {
+  const args = ["commit", "-m", message.subject]
+  if (message.body) {
+    args.push("-m", message.body)
+  }
+  if (message.trailers && Object.keys(message.trailers).length > 0) {
+    const trailers = Object.entries(message.trailers).map(([key, value]) => `${key}: ${value}`)
+    args.push("-m", trailers.join("\n"))
+  }
+  return args
+}
+
+/**
+ * Create a git commit for a completed task.
+ *
+ * With a `snapshot` from snapshotDirtyPaths, paths that are still exactly as they were
+ * in the snapshot are left out of the commit and reported as excluded. `beforeCommit`
+ * is called with the staged changes just before committing; the paths it returns
+ * (relative to the repository root) are staged and committed as well.
+ */
+export async function createGitCommit(
+  directory: string,
+  message: CommitMessage,
+  snapshot?: Record<string, string> | null,
+  beforeCommit?: (staged: FileStats[]) => Promise<string[]>,
+): Promise<CommitResult> {
+  const git = (args: string[]) => runCommand(directory, "git", args)
 
   // Check if we're in a git repo
-  const gitCheck = await runCommand("git", ["rev-parse", "--git-dir"])
-  if (gitCheck.code !== 0) {
+  if (!(await isGitRepo(directory))) {
     return { success: false, message: "Not a git repository" }
   }
 
   // Check if there are any changes to commit
-  const statusCheck = await runCommand("git", ["status", "--porcelain"])
+  const statusCheck = await git(["status", "--porcelain"])
   if (statusCheck.stdout.trim() === "") {
     return { success: false, message: "No changes to commit" }
   }
 
-  // Stage all changes
-  const addResult = await runCommand("git", ["add", "-A"])
+  // Stage all changes, except pre-existing ones the task didn't touch
+  const excluded: string[] = []
+  let changed: string[] | null = null
+  if (snapshot && Object.keys(snapshot).length > 0) {
+    const current = await snapshotDirtyPaths(directory)
+    changed = []
+    for (const [file, hash] of Object.entries(current)) {
+      if (snapshot[file] === hash) {
+        excluded.push(file)
+      } else {
+        changed.push(file)
+      }
+    }
+    if (changed.length === 0) {
+      return {
+        success: false,
+        message: "No changes to commit (only pre-existing changes)",
+        excluded,
+      }
+    }
+  }
+  const root = (await getRepoRoot(directory)) ?? directory
+  const addResult = await runCommand(
+    root,
+    "git",
+    changed ? ["add", "-A", "--", ...changed] : ["add", "-A"],
+  )
   if (addResult.code !== 0) {
     return { success: false, message: `Failed to stage changes: ${addResult.stderr}` }
   }
 
-  // Create commit with task info
-  // Git commit format: subject line (short), blank line, body (details)
-  // Task titles may be in formats like:
-  //   "**Create file** - description"  (with ** markers)
-  //   "Create file** - description"    (trailing ** from parser)
-  //   "Create file - description"      (plain text)
-  // We want to extract the heading (before " - ") as subject, rest as body
-  let commitSubject: string
-  let commitBody: string | null = null
+  if (beforeCommit) {
+    const staged = await runCommand(root, "git", [
+      "diff",
+      "--cached",
+      "--numstat",
+      ...(changed ? ["--", ...changed] : []),
+    ])
+    const extra = await beforeCommit(parseNumstat(staged.stdout))
+    // Paths git won't stage (e.g. ignored ones) are left out rather than failing the commit
+    if (extra.length > 0 && (await runCommand(root, "git", ["add", "--", ...extra])).code === 0) {
+      if (changed) changed.push(...extra.filter((file) => !changed?.includes(file)))
+    }
+  }
 
-  // First, clean up any ** markers from the title
-  const cleanTitle = taskTitle.replace(/\*\*/g, "").trim()
+  // Commit only the task's paths, so changes the user had already staged stay out too
+  const commitResult = await runCommand(
+    root,
+    "git",
+    changed ? [...commitArgs(message), "--only", "--", ...changed] : commitArgs(message),
+  )
+  if (commitResult.code !== 0) {
+    // Usually a pre-commit or commit-msg hook rejecting the changes
+    return {
+      success: false,
+      message: `Failed to commit: ${commitResult.stderr}`,
+      rejected: true,
+      output: (commitResult.stdout + commitResult.stderr).trim(),
+    }
+  }
 
-  // Split on " - " to separate heading from description
-  const separatorIdx = cleanTitle.indexOf(" - ")
-  if (separatorIdx !== -1) {
-    const heading = cleanTitle.slice(0, separatorIdx).trim()
-    const description = cleanTitle.slice(separatorIdx + 3).trim()
-    commitSubject = `feat(nelson): task ${taskNum} - ${heading}`
-    if (description) {
-      commitBody = description
+  const shaResult = await git(["rev-parse", "HEAD"])
+  const sha = shaResult.code === 0 ? shaResult.stdout.trim() : undefined
+
+  let resultMessage = `Created commit: ${message.subject}`
+  if (excluded.length > 0) {
+    resultMessage += ` (left out ${excluded.length} pre-existing change(s): ${excluded.join(", ")})`
+  }
+  return { success: true, message: resultMessage, sha, excluded }
+}
+
+/**
+ * Parse `git diff --numstat` output into files with line insertions and deletions
+ * (0 for binary files)
+ */
+function parseNumstat(output: string): FileStats[] {
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [insertions, deletions, ...file] = line.split("\t")
+      return {
+        path: file.join("\t"),
+        insertions: parseInt(insertions, 10) || 0,
+        deletions: parseInt(deletions, 10) || 0,
+      }
+    })
+}
+
+/**
+ * Format the change summary written under a completed task in the plan
+ */
+export function formatChangeSummary(subject: string, files: FileStats[], maxFiles = 10): string[] {
+  const insertions = files.reduce((sum, f) => sum + f.insertions, 0)
+  const deletions = files.reduce((sum, f) => sum + f.deletions, 0)
+  const lines = [
+    `> Commit "${subject}": ${files.length} file(s) changed, +${insertions} -${deletions}`,
+  ]
+  for (const file of files.slice(0, maxFiles)) {
+    lines.push(`> - \`${file.path}\` (+${file.insertions} -${file.deletions})`)
+  }
+  if (files.length > maxFiles) {
+    lines.push(`> - ...and ${files.length - maxFiles} more`)
+  }
+  return lines
+}
+
+/**
+ * Get the name of the currently checked out branch, or null if not in a git repository
+ * (or HEAD is detached)
+ */
+export async function getCurrentBranch(directory: string): Promise<string | null> {
+  const result = await runCommand(directory, "git", ["rev-parse", "--abbrev-ref", "HEAD"])
+  const branch = result.stdout.trim()
+  return result.code === 0 && branch && branch !== "HEAD" ? branch : null
+}
+
+/**
+ * Switch to a branch, creating it from the current HEAD if it doesn't exist yet
+ */
+export async function checkoutBranch(
+  directory: string,
+  branch: string,
+): Promise<{ success: boolean; message: string }> {
+  const git = (args: string[]) => runCommand(directory, "git", args)
+
+  const exists = await git(["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`])
+  const result =
+    exists.code === 0 ? await git(["checkout", branch]) : await git(["checkout", "-b", branch])
+  if (result.code !== 0) {
+    return {
+      success: false,
+      message: `Failed to switch to branch ${branch}: ${result.stderr.trim()}`,
     }
-  } else {
-    commitSubject = `feat(nelson): task ${taskNum} - ${cleanTitle}`
   }
 
-  const commitArgs = ["commit", "-m", commitSubject]
-  if (commitBody) {
-    commitArgs.push("-m", commitBody)
+  return {
+    success: true,
+    message: exists.code === 0 ? `Switched to branch ${branch}` : `Created branch ${branch}`,
+  }
+}
+
+/**
+ * Read the commits on the current branch, newest first, with the plan file and task IDs
+ * from their Nelson trailers and the SHA they revert (if they are a revert)
+ */
+async function readLog(directory: string): Promise<
+  {
+    sha: string
+    subject: string
+    planFile: string | null
+    taskIds: string[]
+    iteration: number | null
+    reverts: string | null
+  }[]
+> {
+  const log = await runCommand(directory, "git", ["log", "--format=%H%x1f%s%x1f%b%x1e"])
+  if (log.code !== 0) return []
+
+  return log.stdout.split("\x1e").flatMap((record) => {
+    const [sha, subject, body] = record.trim().split("\x1f")
+    if (!sha || body === undefined) return []
+
+    const trailer = (key: string) =>
+      body.match(new RegExp(`^${key}:\\s*(.+?)\\s*$`, "m"))?.[1] ?? null
+    const iteration = parseInt(trailer(NELSON_TRAILERS.iteration) ?? "", 10)
+    return [
+      {
+        sha,
+        subject,
+        planFile: trailer(NELSON_TRAILERS.plan),
+        // A squashed plan commit lists every task it covers
+        taskIds: (trailer(NELSON_TRAILERS.task) ?? "").split(/[\s,]+/).filter(Boolean),
+        iteration: isNaN(iteration) ? null : iteration,
+        reverts: body.match(/This reverts commit ([0-9a-f]{40})/)?.[1] ?? null,
+      },
+    ]
+  })
+}
+
+/**
+ * Read the task commits on the current branch, newest first, from their Nelson
+ * trailers. Commits that have since been reverted are left out.
+ */
+export async function readTaskCommits(directory: string): Promise<TaskCommit[]> {
+  const commits: TaskCommit[] = []
+  const reverted = new Set<string>()
+  for (const entry of await readLog(directory)) {
+    if (entry.reverts) {
+      reverted.add(entry.reverts)
+      continue
+    }
+    if (!entry.planFile || reverted.has(entry.sha)) continue
+    for (const taskId of entry.taskIds) {
+      commits.push({
+        sha: entry.sha,
+        subject: entry.subject,
+        planFile: entry.planFile,
+        taskId,
+        iteration: entry.iteration,
+        squashed: entry.taskIds.length > 1,
+      })
+    }
   }
-  const commitResult = await runCommand("git", commitArgs)
+  return commits
+}
+
+/**
+ * Build the message for a plan's squashed commit: the plan title as subject, and each
+ * completed task's title and description as body
+ */
+export function formatPlanSquashMessage(
+  plan: ParsedPlan,
+  planFile: string,
+  prefix?: string | null,
+): CommitMessage {
+  const completed = plan.tasks.filter((t) => t.status === "completed")
+  const body = completed
+    .map((task) => {
+      const title = `- ${task.title.replace(/\*\*/g, "").trim()}`
+      const description = task.description
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => `  ${line}`)
+        .join("\n")
+      return description ? `${title}\n${description}` : title
+    })
+    .join("\n")
+
+  return {
+    subject: `${prefix || DEFAULT_COMMIT_PREFIX}: ${plan.title || planSlug(planFile)}`,
+    body: body || null,
+    trailers: {
+      [NELSON_TRAILERS.plan]: planFile,
+      [NELSON_TRAILERS.task]: completed.map((t) => t.id).join(", "),
+    },
+  }
+}
+
+/**
+ * Squash a plan's task commits into one commit with the given message.
+ *
+ * The plan's commits (and reverts of them) must be the latest commits on the branch -
+ * if anything else is interleaved nothing is changed. Unstaged changes are kept, but
+ * staged changes must be committed or unstaged first.
+ */
+export async function squashPlanCommits(
+  directory: string,
+  planFile: string,
+  message: CommitMessage,
+): Promise<CommitResult> {
+  const git = (args: string[]) => runCommand(directory, "git", args)
+
+  const log = await readLog(directory)
+  const bySha = new Map(log.map((entry) => [entry.sha, entry]))
+  const belongs = (sha: string | null): boolean => {
+    const entry = sha ? bySha.get(sha) : undefined
+    return !!entry && (entry.planFile === planFile || belongs(entry.reverts))
+  }
+
+  let oldest = -1
+  log.forEach((entry, i) => {
+    if (belongs(entry.sha)) oldest = i
+  })
+  if (oldest === -1) {
+    return { success: false, message: `No task commits found for ${planFile}` }
+  }
+  const foreign = log.slice(0, oldest + 1).filter((entry) => !belongs(entry.sha))
+  if (foreign.length > 0) {
+    return {
+      success: false,
+      message: `Other commits are mixed in with the plan's task commits, so nothing was squashed: ${foreign.map((e) => `${e.sha.slice(0, 7)} ${e.subject}`).join("; ")}`,
+    }
+  }
+  const base = log[oldest + 1]
+  if (!base) {
+    return { success: false, message: "The plan's first task commit is the root commit" }
+  }
+
+  const staged = await git(["diff", "--cached", "--quiet"])
+  if (staged.code !== 0) {
+    return { success: false, message: "There are staged changes - commit or unstage them first" }
+  }
+
+  const head = (await git(["rev-parse", "HEAD"])).stdout.trim()
+  const reset = await git(["reset", "--soft", base.sha])
+  if (reset.code !== 0) {
+    return {
+      success: false,
+      message: `Failed to reset to ${base.sha.slice(0, 7)}: ${reset.stderr}`,
+    }
+  }
+
+  const commitResult = await git(commitArgs(message))
   if (commitResult.code !== 0) {
+    // Put the branch back where it was
+    await git(["reset", "--soft", head])
     return { success: false, message: `Failed to commit: ${commitResult.stderr}` }
   }
 
-  return { success: true, message: `Created commit: ${commitSubject}` }
+  const sha = (await git(["rev-parse", "HEAD"])).stdout.trim()
+  return {
+    success: true,
+    message: `Squashed ${oldest + 1} commit(s) into: ${message.subject}`,
+    sha,
+  }
+}
+
+/**
+ * Find the commit created for a task on the current branch: the newest of the
+ * `candidates` (e.g. SHAs from the run journal) that is still reachable from HEAD,
+ * then the newest commit whose trailers name the task, otherwise the newest commit
+ * whose subject mentions "task N" (only among the plan's commits, given `trailers`).
+ * Reverts, and commits that have already been reverted, are never returned.
+ */
+export async function findTaskCommit(
+  directory: string,
+  taskNum: number,
+  candidates: string[] = [],
+  trailers?: { planFile: string; taskId: string },
+): Promise<{ sha: string; subject: string } | null> {
+  const log = await readLog(directory)
+  const reverted = new Set(log.flatMap((entry) => (entry.reverts ? [entry.reverts] : [])))
+  const commits = log.filter((entry) => !entry.reverts && !reverted.has(entry.sha))
+
+  for (const sha of [...candidates].reverse()) {
+    const commit = commits.find((entry) => entry.sha === sha)
+    if (commit) return { sha: commit.sha, subject: commit.subject }
+  }
+
+  if (trailers) {
+    const commit = commits.find(
+      (c) => c.planFile === trailers.planFile && c.taskIds.includes(trailers.taskId),
+    )
+    if (commit) return { sha: commit.sha, subject: commit.subject }
+  }
+
+  const pattern = new RegExp(`\\btask ${taskNum}\\b`, "i")
+  const commit = commits.find(
+    (c) => (!trailers || c.planFile === trailers.planFile) && pattern.test(c.subject),
+  )
+  return commit ? { sha: commit.sha, subject: commit.subject } : null
+}
+
+/**
+ * Undo a commit, either with a new revert commit or (only if it is HEAD) by resetting
+ * the branch to its parent. The reset keeps uncommitted changes in the working tree.
+ * A revert leaves `keepPaths` (relative to the repository root, e.g. the plan file,
+ * which the caller updates itself) as they are, so later edits to them can't conflict.
+ */
+export async function undoCommit(
+  directory: string,
+  sha: string,
+  mode: "revert" | "reset",
+  keepPaths: string[] = [],
+): Promise<{ success: boolean; message: string }> {
+  const root = (await getRepoRoot(directory)) ?? directory
+  const git = (args: string[]) => runCommand(root, "git", args)
+
+  if (mode === "reset") {
+    const head = await git(["rev-parse", "HEAD"])
+    if (head.stdout.trim() !== sha) {
+      return {
+        success: false,
+        message: `Commit ${sha.slice(0, 7)} is not the latest commit, so it can't be reset away. Use mode 'revert' instead.`,
+      }
+    }
+  }
+
+  // Set aside the kept files (uncommitted edits included) so the undo can't trip over
+  // them, and put them back whatever happens
+  const kept = new Map<string, string>()
+  for (const file of keepPaths) {
+    const keptFile = Bun.file(path.join(root, file))
+    if (await keptFile.exists()) kept.set(file, await keptFile.text())
+    await git(["checkout", "HEAD", "--", file])
+  }
+  const restoreKept = async () => {
+    for (const [file, text] of kept) await Bun.write(path.join(root, file), text)
+  }
+
+  if (mode === "reset") {
+    const reset = await git(["reset", "--keep", "HEAD~1"])
+    await restoreKept()
+    if (reset.code !== 0) {
+      return { success: false, message: `Failed to reset: ${reset.stderr.trim()}` }
+    }
+    return { success: true, message: `Reset away commit ${sha.slice(0, 7)}` }
+  }
+
+  const abortRevert = async (message: string) => {
+    await git(["revert", "--abort"])
+    await restoreKept()
+    return { success: false, message: `${message} (the revert was aborted)` }
+  }
+  const revert = await git(["revert", "--no-commit", sha])
+  const conflicted = (await git(["diff", "--name-only", "--diff-filter=U"])).stdout
+    .split("\n")
+    .filter(Boolean)
+  // Conflicts in the kept files don't matter, since they are put back anyway
+  if (revert.code !== 0 && (conflicted.length === 0 || conflicted.some((f) => !kept.has(f)))) {
+    return abortRevert(
+      `Failed to revert ${sha.slice(0, 7)}: ${(revert.stdout + revert.stderr).trim()}`,
+    )
+  }
+  for (const file of keepPaths) {
+    await git(["checkout", "HEAD", "--", file])
+  }
+
+  const commit = await git(["commit", "--no-edit", "--allow-empty"])
+  if (commit.code !== 0) {
+    return abortRevert(
+      `Failed to commit the revert of ${sha.slice(0, 7)}: ${(commit.stdout + commit.stderr).trim()}`,
+    )
+  }
+  await restoreKept()
+  return { success: true, message: `Reverted commit ${sha.slice(0, 7)}` }
+}
+
+/**
+ * The checkout a plan's commits are made in: its worktree while one exists (the loop
+ * may still be running there), otherwise the project itself
+ */
+export async function planWorkDir(directory: string, planFile: string): Promise<string> {
+  const worktreePath = worktreePathForPlan(directory, planFile)
+  return (await listWorktrees(directory)).includes(worktreePath) ? worktreePath : directory
 }
 
 /**
- * Mark a task as complete in the plan file and optionally create a git commit
+ * List the paths of every worktree of the repository
+ */
+export async function listWorktrees(directory: string): Promise<string[]> {
+  const result = await runCommand(directory, "git", ["worktree", "list", "--porcelain"])
+  if (result.code !== 0) return []
+  return result.stdout
+    .split("\n")
+    .filter((line) => line.startsWith("worktree "))
+    .map((line) => path.resolve(line.slice("worktree ".length)))
+}
+
+/**
+ * Create a worktree for a branch (creating the branch from HEAD if needed), or reuse
+ * the worktree if it already exists. A new worktree gets a copy of `planFile` as it is
+ * in `directory` (uncommitted edits included), which is the live copy from then on
+ * (see planFilePath).
+ */
+export async function addWorktree(
+  directory: string,
+  worktreePath: string,
+  branch: string,
+  planFile?: string,
+): Promise<{ success: boolean; message: string }> {
+  const git = (args: string[]) => runCommand(directory, "git", args)
+
+  if ((await listWorktrees(directory)).includes(path.resolve(worktreePath))) {
+    return { success: true, message: `Reusing worktree ${worktreePath}` }
+  }
+
+  const exists = await git(["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`])
+  const result =
+    exists.code === 0
+      ? await git(["worktree", "add", worktreePath, branch])
+      : await git(["worktree", "add", "-b", branch, worktreePath])
+  if (result.code !== 0) {
+    return {
+      success: false,
+      message: `Failed to create worktree at ${worktreePath}: ${result.stderr.trim()}`,
+    }
+  }
+
+  if (planFile && !path.isAbsolute(planFile)) {
+    const plan = Bun.file(path.join(directory, planFile))
+    if (await plan.exists()) {
+      await mkdir(path.dirname(path.join(worktreePath, planFile)), { recursive: true })
+      await Bun.write(path.join(worktreePath, planFile), plan)
+    }
+  }
+
+  return { success: true, message: `Created worktree ${worktreePath} on branch ${branch}` }
+}
+
+/**
+ * Mark a task as complete in the plan file and optionally create a git commit.
+ *
+ * If the task or plan declares a verification command it is run first; when it
+ * fails the task is left unchecked, no commit is made and the failure is returned.
+ * `overrides` (from tool arguments) take precedence over the plan's own settings.
+ * When committing to an expected `branch`, nothing is changed if a different branch
+ * is checked out, and if the commit itself is rejected (e.g. by a pre-commit hook, or
+ * because its subject is too long) the task is left unchecked. With a `worktree`,
+ * verification and the commit happen there, on the worktree's copy of the plan.
+ * Outside a git repository the task's changed files are saved as a checkpoint (see
+ * checkpoint.ts) instead of being committed. Given the agent's `acceptance` report
+ * (null if it sent none), a task with acceptance criteria is left open until every
+ * criterion is reported as met.
  */
 export async function markTaskCompleteAndCommit(
   directory: string,
   planFile: string,
   taskNum: number,
   shouldCommit: boolean,
-): Promise<{ taskTitle: string; commitResult?: { success: boolean; message: string } }> {
+  overrides: {
+    verifyCommand?: string | null
+    commitPrefix?: string | null
+    branch?: string | null
+    worktree?: string | null
+    dirtySnapshot?: Record<string, string> | null
+    iteration?: number
+    acceptance?: AcceptanceResult[] | null
+  } = {},
+): Promise<TaskCompletionResult> {
   const content = await readPlanFile(directory, planFile)
   if (!content) {
     throw new Error(`Plan file not found: ${planFile}`)
@@ -103,6 +725,92 @@ export async function markTaskCompleteAndCommit(
 
   const task = plan.tasks[taskNum - 1]
   const alreadyCompleted = task.status === "completed"
+  const workDir = overrides.worktree || directory
+
+  // The task was skipped or blocked while it ran (e.g. via nm-skip) - leave it alone
+  if (task.status === "skipped" || task.status === "blocked") {
+    return { taskTitle: task.title, status: task.status }
+  }
+
+  // A task with subtasks is only complete once every subtask is checked
+  const pendingSubtasks = getPendingSubtasks(task)
+  if (!alreadyCompleted && pendingSubtasks.length > 0) {
+    return { taskTitle: task.title, status: task.status, pendingSubtasks }
+  }
+
+  // Every acceptance criterion must be reported as met (unreported ones count as unmet)
+  if (!alreadyCompleted && task.acceptance?.length && overrides.acceptance !== undefined) {
+    const unmetCriteria = task.acceptance.flatMap((criterion, i) => {
+      const result = overrides.acceptance?.find((r) => r.num === i + 1)
+      if (result?.met) return []
+      return [`${i + 1}. ${criterion} (${result ? result.note || "not met" : "not reported"})`]
+    })
+    if (unmetCriteria.length > 0) {
+      return { taskTitle: task.title, status: task.status, unmetCriteria }
+    }
+  }
+
+  // Run the verification gate before touching the plan or git
+  let verifyResult: VerifyResult | undefined
+  const verifyCommand = task.verifyCommand || overrides.verifyCommand || plan.verifyCommand
+  if (verifyCommand) {
+    verifyResult = await runVerification(workDir, verifyCommand)
+    if (!verifyResult.success) {
+      return { taskTitle: task.title, status: task.status, verifyResult }
+    }
+  }
+
+  // Don't commit (or check the task off) on the wrong branch
+  if (shouldCommit && overrides.branch) {
+    const currentBranch = await getCurrentBranch(workDir)
+    if (currentBranch !== overrides.branch) {
+      return {
+        taskTitle: task.title,
+        status: task.status,
+        commitResult: {
+          success: false,
+          message: `Expected branch ${overrides.branch} but ${currentBranch ?? "no branch"} is checked out`,
+          branchMismatch: true,
+        },
+      }
+    }
+  }
+
+  // Check the commit subject before touching the plan, so a subject that is too long
+  // (e.g. for a task renamed mid-run) leaves the task open rather than checked off
+  // with its changes uncommitted
+  const gitRepo = shouldCommit && (await isGitRepo(workDir))
+  let message: CommitMessage | undefined
+  if (gitRepo) {
+    const config = await readConfig(directory)
+    message = formatCommitMessage(task, taskNum, {
+      template: plan.settings.commitTemplate || config.commitTemplate,
+      prefix: overrides.commitPrefix || plan.settings.commitPrefix,
+      planName: planSlug(planFile),
+    })
+    message.trailers = {
+      [NELSON_TRAILERS.plan]: planFile,
+      [NELSON_TRAILERS.task]: task.id,
+      ...(overrides.iteration ? { [NELSON_TRAILERS.iteration]: String(overrides.iteration) } : {}),
+    }
+    const subjectError = validateCommitSubject(
+      message.subject,
+      plan.settings.commitMaxLength ?? config.commitMaxLength,
+    )
+    if (subjectError) {
+      return {
+        taskTitle: task.title,
+        status: task.status,
+        commitResult: {
+          success: false,
+          message: subjectError,
+          rejected: true,
+          output: `${subjectError}\nShorten the task title (nm-plan action='rename') so the subject fits.`,
+        },
+        verifyResult,
+      }
+    }
+  }
 
   // Update the plan file if not already complete
   if (!alreadyCompleted) {
@@ -111,10 +819,44 @@ export async function markTaskCompleteAndCommit(
   }
 
   // Create commit if requested (even if task was already marked complete)
-  let commitResult: { success: boolean; message: string } | undefined
+  let commitResult: CommitResult | undefined
   if (shouldCommit) {
-    commitResult = await createGitCommit(directory, task.title, taskNum)
+    // Record what the task changed under it in the plan (the plan file itself is left
+    // out), before committing so the summary is part of the task's own commit
+    const root = (await getRepoRoot(workDir)) ?? workDir
+    const planPath = path.relative(root, planFilePath(directory, planFile))
+    const writeSummary = async (staged: FileStats[]): Promise<string[]> => {
+      const latest = await readPlanFile(directory, planFile)
+      const latestTask = latest ? parsePlanFile(latest).tasks[taskNum - 1] : undefined
+      if (!message || !latest || !latestTask) return []
+      const files = staged.filter((f) => f.path !== planPath)
+      const summary = formatChangeSummary(message.subject, files)
+      await writePlanFile(directory, planFile, setTaskSummary(latest, latestTask, summary))
+      return [planPath]
+    }
+    // A plan git doesn't track (e.g. under an ignored .opencode/) can't carry a summary
+    const summarize =
+      plan.settings.summaries !== false &&
+      !planPath.startsWith("..") &&
+      message !== undefined &&
+      (await runCommand(root, "git", ["ls-files", "--error-unmatch", "--", planPath])).code === 0
+
+    // Without git, the task's changed files are saved as a checkpoint instead
+    commitResult = message
+      ? await createGitCommit(
+          workDir,
+          message,
+          overrides.dirtySnapshot,
+          summarize ? writeSummary : undefined,
+        )
+      : await createCheckpoint(directory, planFile, task.id, taskNum, task.title)
+
+    // A rejected commit (e.g. by a hook) leaves the task open so it can be fixed
+    if (commitResult.rejected && !alreadyCompleted) {
+      await writePlanFile(directory, planFile, content)
+      return { taskTitle: task.title, status: task.status, commitResult, verifyResult }
+    }
   }
 
-  return { taskTitle: task.title, commitResult }
+  return { taskTitle: task.title, status: "completed", commitResult, verifyResult }
 }
@@ -0,0 +1,209 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import * as path from "node:path"
+import * as os from "node:os"
+import * as fs from "node:fs/promises"
+import type { NelsonState } from "./types"
+import { NelsonMuntzPlugin } from "./index"
+import { readState, writeState } from "./state"
+import { runCommand } from "./utils"
+
+const SESSION_ID = "ses-1"
+
+const projects: string[] = []
+
+afterEach(async () => {
+  for (const dir of projects.splice(0)) {
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+})
+
+// A git repository with one commit and the given (uncommitted) plan
+async function createProject(plan: string): Promise<string> {
+  const dir = path.join(os.tmpdir(), `nelson-index-test-${Date.now()}`)
+  projects.push(dir)
+  await fs.mkdir(dir, { recursive: true })
+  for (const args of [
+    ["init", "-q", "-b", "main"],
+    ["config", "user.email", "nelson@example.com"],
+    ["config", "user.name", "Nelson"],
+  ]) {
+    await runCommand(dir, "git", args)
+  }
+  await fs.writeFile(path.join(dir, "a.txt"), "a\n")
+  await runCommand(dir, "git", ["add", "-A"])
+  await runCommand(dir, "git", ["commit", "-q", "-m", "initial"])
+  await fs.writeFile(path.join(dir, "plan.md"), plan)
+  return dir
+}
+
+function loopState(overrides: Partial<NelsonState> = {}): NelsonState {
+  return {
+    active: true,
+    iteration: 1,
+    maxIterations: 10,
+    completionPromise: null,
+    prompt: "",
+    sessionId: SESSION_ID,
+    startedAt: "2026-01-01T10:00:00Z",
+    planFile: "plan.md",
+    mode: "loop",
+    currentTaskNum: 1,
+    commit: true,
+    ...overrides,
+  }
+}
+
+/**
+ * Run the plugin's session.idle handler with a client whose session ends with the
+ * given assistant texts, and collect the prompts and toasts it sends
+ */
+async function idle(dir: string, assistantTexts: string[]) {
+  const prompts: string[] = []
+  const toasts: { message: string; variant: string }[] = []
+  const client = {
+    session: {
+      messages: async () => ({
+        data: [
+          { info: { role: "user" }, parts: [] },
+          {
+            info: { role: "assistant" },
+            parts: assistantTexts.map((text) => ({ type: "text", text })),
+          },
+        ],
+      }),
+      prompt: async (args: { body: { parts: { text: string }[] } }) => {
+        prompts.push(args.body.parts[0].text)
+      },
+    },
+    app: { log: async () => {} },
+    tui: {
+      showToast: async (args: { body: { message: string; variant: string } }) => {
+        toasts.push(args.body)
+      },
+    },
+  }
+  const hooks = await NelsonMuntzPlugin({ directory: dir, client } as never)
+  await hooks.event?.({
+    event: { type: "session.idle", properties: { sessionID: SESSION_ID } },
+  } as never)
+  return { prompts, toasts, state: await readState(dir, SESSION_ID) }
+}
+
+describe("rejected commits", () => {
+  // commit_max_length rejects every commit of the first task, without needing a hook
+  const plan = `---
+commit_max_length: 30
+---
+# Plan
+
+## Tasks
+
+- [~] **Add a feature with a long title**
+- [ ] **Add docs**
+`
+
+  test("count up and re-prompt the same task", async () => {
+    const dir = await createProject(plan)
+    await writeState(dir, SESSION_ID, loopState({ maxCommitAttempts: 3 }))
+    await fs.writeFile(path.join(dir, "b.txt"), "b\n")
+
+    const { prompts, state } = await idle(dir, ["<task-done>1</task-done>"])
+    expect(state?.commitFailures).toBe(1)
+    expect(state?.currentTaskNum).toBe(1)
+    expect(prompts).toHaveLength(1)
+    expect(prompts[0]).toContain("Retrying after rejected commit")
+    expect(await Bun.file(path.join(dir, "plan.md")).text()).toContain(
+      "- [~] **Add a feature with a long title**",
+    )
+  })
+
+  test("reset the count when the loop moves to another task", async () => {
+    const dir = await createProject(plan.replace("commit_max_length: 30", "commit: true"))
+    await writeState(dir, SESSION_ID, loopState({ commitFailures: 2, maxCommitAttempts: 3 }))
+    await fs.writeFile(path.join(dir, "b.txt"), "b\n")
+
+    const { prompts, state } = await idle(dir, ["<task-done>1</task-done>"])
+    expect(state?.currentTaskNum).toBe(2)
+    expect(state?.commitFailures).toBe(0)
+    expect(prompts[0]).toContain("Task 2/2")
+  })
+
+  test("stop the loop with a toast once the cap is reached", async () => {
+    const dir = await createProject(plan)
+    await writeState(dir, SESSION_ID, loopState({ commitFailures: 1, maxCommitAttempts: 2 }))
+    await fs.writeFile(path.join(dir, "b.txt"), "b\n")
+
+    const { prompts, toasts, state } = await idle(dir, ["<task-done>1</task-done>"])
+    expect(state).toBeNull()
+    expect(prompts).toEqual([])
+    expect(toasts).toEqual([
+      {
+        message:
+          "🛑 Nelson loop stopped: the commit for task 1 was rejected 2 times. Its changes are left uncommitted for you to fix.",
+        variant: "error",
+      },
+    ])
+    expect(await Bun.file(path.join(dir, "plan.md")).text()).toContain(
+      "- [ ] **Add a feature with a long title**",
+    )
+  })
+})
+
+describe("tasks without a completion signal", () => {
+  const plan = `# Plan
+
+## Tasks
+
+- [~] **Add a feature**
+- [ ] **Add docs**
+`
+
+  test("are prompted again instead of being checked off", async () => {
+    const dir = await createProject(plan)
+    await writeState(dir, SESSION_ID, loopState())
+
+    const { prompts, state } = await idle(dir, ["Should the feature be behind a flag?"])
+    expect(state?.currentTaskNum).toBe(1)
+    expect(state?.iteration).toBe(2)
+    expect(prompts).toHaveLength(1)
+    expect(prompts[0]).toContain(
+      "Task not signalled as done - continue it, then output <task-done>1</task-done>",
+    )
+    expect(await Bun.file(path.join(dir, "plan.md")).text()).toContain("- [~] **Add a feature**")
+    expect((await runCommand(dir, "git", ["rev-list", "--count", "HEAD"])).stdout.trim()).toBe("1")
+  })
+
+  test("stop the loop once the prompt limit is reached", async () => {
+    const dir = await createProject(plan)
+    await writeState(dir, SESSION_ID, loopState({ iteration: 5, maxIterations: 5 }))
+
+    const { prompts, toasts, state } = await idle(dir, ["Still thinking"])
+    expect(state).toBeNull()
+    expect(prompts).toEqual([])
+    expect(toasts).toEqual([
+      { message: "Nelson loop: Max iterations (5) reached.", variant: "warning" },
+    ])
+    expect(await Bun.file(path.join(dir, "plan.md")).text()).toContain("- [~] **Add a feature**")
+  })
+})
+
+describe("branch checks", () => {
+  test("pause the loop when HEAD moved to another branch", async () => {
+    const dir = await createProject("# Plan\n\n## Tasks\n\n- [~] **Add b**\n- [ ] **Add c**\n")
+    await writeState(dir, SESSION_ID, loopState({ branch: "nelson/plan" }))
+    await fs.writeFile(path.join(dir, "b.txt"), "b\n")
+
+    const { prompts, toasts, state } = await idle(dir, ["<task-done>1</task-done>"])
+    expect(state?.active).toBe(false)
+    expect(state?.pausedAt).toBeString()
+    expect(prompts).toEqual([])
+    expect(toasts).toEqual([
+      {
+        message:
+          "⏸ Nelson loop paused: Expected branch nelson/plan but main is checked out. Switch back and use nm-resume.",
+        variant: "warning",
+      },
+    ])
+    expect((await runCommand(dir, "git", ["rev-list", "--count", "HEAD"])).stdout.trim()).toBe("1")
+  })
+})
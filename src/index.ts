@@ -1,13 +1,41 @@
 import { type Plugin } from "@opencode-ai/plugin"
+import type {
+  AcceptanceResult,
+  JournalEntry,
+  NelsonState,
+  PlanSubtask,
+  TaskSignal,
+  VerifyResult,
+} from "./types"
 
 // Import from modules
 import { readState, writeState, removeState } from "./state"
-import { extractPromiseText, detectProjectTools } from "./utils"
-import { readPlanFile, parsePlanFile } from "./plan"
-import { markTaskCompleteAndCommit } from "./git"
-import { generateSingleTaskPrompt } from "./prompts"
+import {
+  extractPromiseText,
+  extractTaskSignal,
+  extractAcceptanceReport,
+  detectProjectTools,
+} from "./utils"
+import {
+  readPlanFile,
+  parsePlanFile,
+  findNextTaskIndex,
+  isRunnableStatus,
+  setTaskStatus,
+  validateDependencies,
+  getBlockingTasks,
+} from "./plan"
+import {
+  DEFAULT_MAX_COMMIT_ATTEMPTS,
+  markTaskCompleteAndCommit,
+  squashPlanCommits,
+  formatPlanSquashMessage,
+} from "./git"
+import { appendJournal, recordTaskResult } from "./journal"
+import { generateSingleTaskPrompt, COMMIT_FAILURE_COMMAND } from "./prompts"
 import { createLoopTools } from "./loop-tools"
 import { createPlanTools } from "./plan-tools"
+import { createGitTools } from "./git-tools"
 
 const NelsonMuntzPlugin: Plugin = async (ctx) => {
   const { directory, client } = ctx
@@ -45,232 +73,517 @@ const NelsonMuntzPlugin: Plugin = async (ctx) => {
     return false
   }
 
-  return {
-    // Listen for session idle to continue the Nelson loop
-    event: async ({ event }) => {
-      if (event.type !== "session.idle") return
+  // Helper to get the text parts of the assistant messages since the last user prompt,
+  // newest first
+  async function recentAssistantTexts(sessionId: string): Promise<string[]> {
+    const texts: string[] = []
+    try {
+      const messagesResult = await client.session.messages({
+        path: { id: sessionId },
+      })
 
-      const state = await readState(directory)
-      if (!state || !state.active) return
+      if (!messagesResult.data) return texts
 
-      // Get session ID from event if available
-      const sessionId = (event.properties as { sessionId?: string })?.sessionId || state.sessionId
-      if (!sessionId) {
-        await client.app.log({
-          body: {
-            service: "nelson-muntz",
-            level: "warn",
-            message: "Nelson loop: No session ID available, cannot continue loop.",
-          },
-        })
-        return
+      const messages = messagesResult.data
+      for (let i = messages.length - 1; i >= 0; i--) {
+        const msg = messages[i]
+        if (msg.info.role === "user") break
+
+        for (const part of [...msg.parts].reverse()) {
+          if (part.type === "text" && typeof part.text === "string") {
+            texts.push(part.text)
+          }
+        }
       }
+    } catch {
+      // Failed to get messages, treat as no text
+    }
+    return texts
+  }
 
-      // Update session ID in state if we got it from event
-      if (sessionId !== state.sessionId) {
-        state.sessionId = sessionId
-        await writeState(directory, state)
+  // Helper to find the agent's task signal (<task-done> / <task-blocked>) for a task,
+  // looking only at assistant messages since the last user prompt
+  async function findTaskSignalInSession(
+    sessionId: string,
+    taskNum: number,
+  ): Promise<TaskSignal | null> {
+    // Texts are scanned newest first so the latest signal wins
+    for (const text of await recentAssistantTexts(sessionId)) {
+      const signal = extractTaskSignal(text)
+      if (signal && (signal.taskNum === null || signal.taskNum === taskNum)) {
+        return signal
       }
+    }
+    return null
+  }
 
-      // Handle single-task mode: just mark complete and exit
-      if (state.mode === "single-task") {
-        if (state.planFile && state.currentTaskNum) {
-          try {
-            const result = await markTaskCompleteAndCommit(
-              directory,
-              state.planFile,
-              state.currentTaskNum,
-              false, // No commit in single-task mode
-            )
-            await client.app.log({
+  // Helper to find the agent's latest <acceptance> report since the last user prompt
+  async function findAcceptanceReportInSession(
+    sessionId: string,
+  ): Promise<AcceptanceResult[] | null> {
+    for (const text of await recentAssistantTexts(sessionId)) {
+      const report = extractAcceptanceReport(text)
+      if (report) return report
+    }
+    return null
+  }
+
+  /**
+   * Handle an idle session with an active loop: complete the current task and
+   * prompt the next one, or end the loop. Outcomes are recorded on `journal`.
+   */
+  async function advanceLoop(
+    state: NelsonState,
+    sessionId: string,
+    journal: JournalEntry,
+  ): Promise<void> {
+    // Handle single-task mode: complete (or block) the task once the agent signals, then exit
+    if (state.mode === "single-task") {
+      if (state.planFile && state.currentTaskNum) {
+        const signal = await findTaskSignalInSession(sessionId, state.currentTaskNum)
+        journal.signal = signal
+
+        // No signal yet (e.g. the agent asked a question) - keep waiting for the next idle
+        if (!signal) {
+          await client.app.log({
+            body: {
+              service: "nelson-muntz",
+              level: "info",
+              message: `Task ${state.currentTaskNum} not finished yet - waiting for <task-done>${state.currentTaskNum}</task-done>`,
+            },
+          })
+          return
+        }
+
+        if (signal.type === "blocked") {
+          const task = await setTaskStatus(
+            directory,
+            state.planFile,
+            state.currentTaskNum,
+            "blocked",
+          )
+          journal.taskTitle = task?.title ?? null
+          journal.taskStatus = "blocked"
+          await client.tui.showToast({
+            body: {
+              message: `⛔ Task blocked: ${task?.title ?? state.currentTaskNum}${signal.reason ? ` - ${signal.reason}` : ""}`,
+              variant: "warning",
+            },
+          })
+          journal.loopEnded = "task blocked"
+          await removeState(directory, sessionId)
+          return
+        }
+
+        try {
+          const result = await markTaskCompleteAndCommit(
+            directory,
+            state.planFile,
+            state.currentTaskNum,
+            false, // No commit in single-task mode
+            {
+              verifyCommand: state.verifyCommand,
+              acceptance: await findAcceptanceReportInSession(sessionId),
+            },
+          )
+          recordTaskResult(journal, result)
+          if (result.pendingSubtasks?.length) {
+            // Keep the task open until every subtask is checked
+            await client.tui.showToast({
               body: {
-                service: "nelson-muntz",
-                level: "info",
-                message: `✓ Task completed: ${result.taskTitle}`,
+                message: `Task not completed - ${result.pendingSubtasks.length} subtask(s) still unchecked`,
+                variant: "warning",
               },
             })
+            return
+          }
+          if (result.unmetCriteria?.length) {
+            // Keep the task open until every acceptance criterion is reported as met
             await client.tui.showToast({
               body: {
-                message: `✓ Task completed: ${result.taskTitle}`,
-                variant: "success",
+                message: `Task not completed - ${result.unmetCriteria.length} acceptance criteria not met`,
+                variant: "warning",
               },
             })
-          } catch (err) {
+            return
+          }
+          if (result.status === "skipped" || result.status === "blocked") {
             await client.app.log({
               body: {
                 service: "nelson-muntz",
-                level: "error",
-                message: `Failed to mark task complete: ${err}`,
+                level: "info",
+                message: `Task was marked ${result.status}, not completing: ${result.taskTitle}`,
               },
             })
-          }
-        }
-        await removeState(directory)
-        return
-      }
-
-      // Handle loop mode: complete current task, commit, then continue to next
-      if (state.mode === "loop" && state.planFile) {
-        // Mark current task complete and create commit
-        if (state.currentTaskNum) {
-          try {
-            const result = await markTaskCompleteAndCommit(
-              directory,
-              state.planFile,
-              state.currentTaskNum,
-              true, // Create commit in loop mode
-            )
-            let logMsg = `✓ Task ${state.currentTaskNum} completed: ${result.taskTitle}`
-            if (result.commitResult?.success) {
-              logMsg += ` | ${result.commitResult.message}`
-            } else if (result.commitResult) {
-              logMsg += ` | Commit skipped: ${result.commitResult.message}`
-            }
+          } else if (result.verifyResult && !result.verifyResult.success) {
             await client.app.log({
               body: {
                 service: "nelson-muntz",
-                level: "info",
-                message: logMsg,
+                level: "warn",
+                message: `✗ Task not completed, verification failed (${result.verifyResult.command}): ${result.taskTitle}\n${result.verifyResult.output}`,
               },
             })
-          } catch (err) {
+            await client.tui.showToast({
+              body: {
+                message: `✗ Verification failed: ${result.verifyResult.command} - task left open`,
+                variant: "warning",
+              },
+            })
+          } else {
             await client.app.log({
               body: {
                 service: "nelson-muntz",
-                level: "error",
-                message: `Failed to complete task ${state.currentTaskNum}: ${err}`,
+                level: "info",
+                message: `✓ Task completed: ${result.taskTitle}`,
+              },
+            })
+            await client.tui.showToast({
+              body: {
+                message: `✓ Task completed: ${result.taskTitle}`,
+                variant: "success",
               },
             })
           }
-        }
-
-        // Re-read the plan to find next pending task
-        const content = await readPlanFile(directory, state.planFile)
-        if (!content) {
+        } catch (err) {
+          journal.errors.push(String(err))
           await client.app.log({
             body: {
               service: "nelson-muntz",
               level: "error",
-              message: `Plan file not found: ${state.planFile}`,
+              message: `Failed to mark task complete: ${err}`,
             },
           })
-          await removeState(directory)
-          return
         }
+      }
+      journal.loopEnded = "single task finished"
+      await removeState(directory, sessionId)
+      return
+    }
 
-        const plan = parsePlanFile(content)
-        const nextPendingIdx = plan.tasks.findIndex((t) => t.status !== "completed")
-
-        // Check if all tasks are complete
-        if (nextPendingIdx === -1) {
-          await client.app.log({
-            body: {
-              service: "nelson-muntz",
-              level: "info",
-              message: `🎉 All ${plan.tasks.length} tasks complete!`,
-            },
-          })
-          await client.tui.showToast({
-            body: {
-              message: `🎉 Nelson loop: All ${plan.tasks.length} tasks complete!`,
-              variant: "success",
+    // Handle loop mode: complete current task, commit, then continue to next
+    if (state.mode === "loop" && state.planFile) {
+      // Mark current task complete and create commit once the agent signals it is done
+      // (unless verification fails). Without a signal the same task is prompted again.
+      let verifyFailure: VerifyResult | null = null
+      let missingSignal = false
+      let pendingSubtasks: PlanSubtask[] = []
+      let unmetCriteria: string[] = []
+      const signal = state.currentTaskNum
+        ? await findTaskSignalInSession(sessionId, state.currentTaskNum)
+        : null
+      journal.signal = signal
+
+      if (state.currentTaskNum && !signal) {
+        missingSignal = true
+        await client.app.log({
+          body: {
+            service: "nelson-muntz",
+            level: "info",
+            message: `Task ${state.currentTaskNum} went idle without <task-done> - prompting it again`,
+          },
+        })
+      } else if (state.currentTaskNum && signal?.type === "blocked") {
+        const task = await setTaskStatus(directory, state.planFile, state.currentTaskNum, "blocked")
+        journal.taskTitle = task?.title ?? null
+        journal.taskStatus = "blocked"
+        const message = `⛔ Task ${state.currentTaskNum} blocked${signal.reason ? `: ${signal.reason}` : ""} - moving on`
+        await client.app.log({
+          body: {
+            service: "nelson-muntz",
+            level: "warn",
+            message,
+          },
+        })
+        await client.tui.showToast({
+          body: {
+            message,
+            variant: "warning",
+          },
+        })
+      } else if (state.currentTaskNum) {
+        try {
+          const result = await markTaskCompleteAndCommit(
+            directory,
+            state.planFile,
+            state.currentTaskNum,
+            state.commit ?? true, // Commit in loop mode unless the plan turned it off
+            {
+              verifyCommand: state.verifyCommand,
+              commitPrefix: state.commitPrefix,
+              branch: state.branch,
+              worktree: state.worktree,
+              dirtySnapshot: state.dirtySnapshot,
+              iteration: state.iteration,
+              acceptance: await findAcceptanceReportInSession(sessionId),
             },
-          })
-          await removeState(directory)
-          return
-        }
-
-        // Check if completion promise was detected
-        if (state.completionPromise) {
-          const completed = await checkCompletionInSession(sessionId, state.completionPromise)
-          if (completed) {
+          )
+          recordTaskResult(journal, result)
+          if (result.commitResult?.branchMismatch) {
+            // Someone switched branches under the loop - pause rather than commit elsewhere
+            state.active = false
+            state.pausedAt = new Date().toISOString()
+            await writeState(directory, sessionId, state)
+            journal.loopEnded = "paused (wrong branch)"
+            const message = `⏸ Nelson loop paused: ${result.commitResult.message}. Switch back and use nm-resume.`
             await client.app.log({
               body: {
                 service: "nelson-muntz",
-                level: "info",
-                message: `Nelson loop: Detected <promise>${state.completionPromise}</promise> - loop complete!`,
+                level: "warn",
+                message,
               },
             })
             await client.tui.showToast({
               body: {
-                message: `Nelson loop completed after ${state.iteration} iterations!`,
-                variant: "success",
+                message,
+                variant: "warning",
               },
             })
-            await removeState(directory)
             return
+          } else if (result.commitResult?.rejected) {
+            // The commit was refused (usually by a hook) - have the agent fix it, up to a limit
+            state.commitFailures = (state.commitFailures ?? 0) + 1
+            const maxAttempts = state.maxCommitAttempts ?? DEFAULT_MAX_COMMIT_ATTEMPTS
+            if (state.commitFailures >= maxAttempts) {
+              await setTaskStatus(directory, state.planFile, state.currentTaskNum, "pending")
+              journal.loopEnded = `commit rejected ${state.commitFailures} times`
+              const message = `🛑 Nelson loop stopped: the commit for task ${state.currentTaskNum} was rejected ${state.commitFailures} times. Its changes are left uncommitted for you to fix.`
+              await client.app.log({
+                body: {
+                  service: "nelson-muntz",
+                  level: "error",
+                  message: `${message}\n${result.commitResult.output ?? ""}`,
+                },
+              })
+              await client.tui.showToast({
+                body: {
+                  message,
+                  variant: "error",
+                },
+              })
+              await removeState(directory, sessionId)
+              return
+            }
+            verifyFailure = {
+              command: COMMIT_FAILURE_COMMAND,
+              success: false,
+              output: result.commitResult.output || result.commitResult.message,
+            }
+            await client.app.log({
+              body: {
+                service: "nelson-muntz",
+                level: "warn",
+                message: `✗ Commit for task ${state.currentTaskNum} was rejected (attempt ${state.commitFailures}/${maxAttempts}) - retrying: ${result.taskTitle}`,
+              },
+            })
+          } else if (result.pendingSubtasks?.length) {
+            pendingSubtasks = result.pendingSubtasks
+            await client.app.log({
+              body: {
+                service: "nelson-muntz",
+                level: "info",
+                message: `Task ${state.currentTaskNum} has ${pendingSubtasks.length} unchecked subtask(s) - prompting it again`,
+              },
+            })
+          } else if (result.unmetCriteria?.length) {
+            unmetCriteria = result.unmetCriteria
+            await client.app.log({
+              body: {
+                service: "nelson-muntz",
+                level: "info",
+                message: `Task ${state.currentTaskNum} has ${unmetCriteria.length} unmet acceptance criteria - prompting it again`,
+              },
+            })
+          } else if (result.verifyResult && !result.verifyResult.success) {
+            verifyFailure = result.verifyResult
+            await client.app.log({
+              body: {
+                service: "nelson-muntz",
+                level: "warn",
+                message: `✗ Task ${state.currentTaskNum} failed verification (${verifyFailure.command}) - retrying: ${result.taskTitle}`,
+              },
+            })
+          } else if (result.status !== "completed") {
+            await client.app.log({
+              body: {
+                service: "nelson-muntz",
+                level: "info",
+                message: `Task ${state.currentTaskNum} was marked ${result.status} - moving on: ${result.taskTitle}`,
+              },
+            })
+          } else {
+            let logMsg = `✓ Task ${state.currentTaskNum} completed: ${result.taskTitle}`
+            if (result.commitResult?.success) {
+              logMsg += ` | ${result.commitResult.message}`
+            } else if (result.commitResult) {
+              logMsg += ` | Commit skipped: ${result.commitResult.message}`
+            }
+            await client.app.log({
+              body: {
+                service: "nelson-muntz",
+                level: "info",
+                message: logMsg,
+              },
+            })
           }
-        }
-
-        // Check max iterations
-        if (state.maxIterations > 0 && state.iteration >= state.maxIterations) {
+        } catch (err) {
+          journal.errors.push(String(err))
           await client.app.log({
             body: {
               service: "nelson-muntz",
-              level: "info",
-              message: `Nelson loop: Max iterations (${state.maxIterations}) reached.`,
-            },
-          })
-          await client.tui.showToast({
-            body: {
-              message: `Nelson loop: Max iterations (${state.maxIterations}) reached.`,
-              variant: "warning",
+              level: "error",
+              message: `Failed to complete task ${state.currentTaskNum}: ${err}`,
             },
           })
-          await removeState(directory)
-          return
         }
+      }
 
-        // Continue to next task
-        const nextTask = plan.tasks[nextPendingIdx]
-        const nextTaskNum = nextPendingIdx + 1
-        state.iteration++
-        state.currentTaskId = nextTask.id
-        state.currentTaskNum = nextTaskNum
-        await writeState(directory, state)
+      // Re-read the plan to find next pending task
+      const content = await readPlanFile(directory, state.planFile)
+      if (!content) {
+        await client.app.log({
+          body: {
+            service: "nelson-muntz",
+            level: "error",
+            message: `Plan file not found: ${state.planFile}`,
+          },
+        })
+        journal.loopEnded = "plan file not found"
+        await removeState(directory, sessionId)
+        return
+      }
 
-        const projectTools = await detectProjectTools(directory)
-        const taskPrompt = generateSingleTaskPrompt(plan, nextTask, nextTaskNum, true, projectTools)
-        const completedCount = plan.tasks.filter((t) => t.status === "completed").length
+      const plan = parsePlanFile(content)
+      if (state.verifyCommand) {
+        plan.verifyCommand = state.verifyCommand
+      }
 
-        const systemMsg = `🔄 Nelson iteration ${state.iteration} | Task ${nextTaskNum}/${plan.tasks.length} (${completedCount} complete)`
+      // A task that failed verification or went idle without signalling is retried
+      // before anything else; otherwise pick the first task whose dependencies are complete
+      const currentTask = state.currentTaskNum ? plan.tasks[state.currentTaskNum - 1] : undefined
+      const retryCurrent =
+        (verifyFailure !== null ||
+          missingSignal ||
+          pendingSubtasks.length > 0 ||
+          unmetCriteria.length > 0) &&
+        !!currentTask &&
+        isRunnableStatus(currentTask.status)
+      // A task undone with nm-undo requeue=true jumps the queue once it can run
+      const requeuedTask = state.requeuedTaskNum ? plan.tasks[state.requeuedTaskNum - 1] : null
+      const runRequeued =
+        !!requeuedTask &&
+        isRunnableStatus(requeuedTask.status) &&
+        getBlockingTasks(requeuedTask, plan.tasks).length === 0
+      const nextPendingIdx =
+        retryCurrent && state.currentTaskNum
+          ? state.currentTaskNum - 1
+          : runRequeued && state.requeuedTaskNum
+            ? state.requeuedTaskNum - 1
+            : findNextTaskIndex(plan.tasks)
+      if (!retryCurrent) {
+        state.requeuedTaskNum = null
+      }
 
+      // Check if all tasks are complete
+      const allComplete = plan.tasks.every((t) => t.status === "completed")
+      const remaining = plan.tasks.filter((t) => isRunnableStatus(t.status))
+      if (allComplete) {
         await client.app.log({
           body: {
             service: "nelson-muntz",
             level: "info",
-            message: systemMsg,
+            message: `🎉 All ${plan.tasks.length} tasks complete!`,
           },
         })
 
-        try {
-          await client.session.prompt({
-            path: { id: sessionId },
-            body: {
-              parts: [
-                {
-                  type: "text",
-                  text: `${systemMsg}\n\n---\n\n${taskPrompt}`,
-                },
-              ],
-            },
-          })
-        } catch (error) {
-          await client.app.log({
-            body: {
-              service: "nelson-muntz",
-              level: "error",
-              message: `Nelson loop: Failed to send prompt - ${error}`,
-            },
-          })
+        // Optionally fold the per-task commits into one
+        let squashNote = ""
+        if (state.squash && (state.commit ?? true)) {
+          try {
+            const squashResult = await squashPlanCommits(
+              state.worktree || directory,
+              state.planFile,
+              formatPlanSquashMessage(
+                plan,
+                state.planFile,
+                state.commitPrefix || plan.settings.commitPrefix,
+              ),
+            )
+            squashNote = squashResult.success
+              ? ` ${squashResult.message}.`
+              : ` Squash skipped: ${squashResult.message}.`
+            await client.app.log({
+              body: {
+                service: "nelson-muntz",
+                level: squashResult.success ? "info" : "warn",
+                message: squashNote.trim(),
+              },
+            })
+          } catch (err) {
+            journal.errors.push(String(err))
+            squashNote = ` Squash failed: ${err}.`
+          }
         }
+
+        await client.tui.showToast({
+          body: {
+            message: `🎉 Nelson loop: All ${plan.tasks.length} tasks complete!${squashNote}${state.worktree ? " Merge or discard the worktree with nm-worktree." : ""}`,
+            variant: "success",
+          },
+        })
+        journal.loopEnded = "all tasks complete"
+        await removeState(directory, sessionId)
+        return
+      }
+
+      // Everything left has been skipped or blocked
+      if (remaining.length === 0) {
+        const skipped = plan.tasks.filter((t) => t.status === "skipped").length
+        const blocked = plan.tasks.filter((t) => t.status === "blocked").length
+        const message = `Nelson loop finished: no runnable tasks left (${skipped} skipped, ${blocked} blocked)`
+        await client.app.log({
+          body: {
+            service: "nelson-muntz",
+            level: "info",
+            message,
+          },
+        })
+        await client.tui.showToast({
+          body: {
+            message,
+            variant: blocked > 0 ? "warning" : "info",
+          },
+        })
+        journal.loopEnded = "no runnable tasks"
+        await removeState(directory, sessionId)
+        return
+      }
+
+      // Remaining tasks are all waiting on dependencies that can't complete
+      if (nextPendingIdx === -1) {
+        const dependencyError = validateDependencies(plan.tasks)
+        const reason = dependencyError || "remaining tasks are blocked by incomplete dependencies"
+        await client.app.log({
+          body: {
+            service: "nelson-muntz",
+            level: "warn",
+            message: `Nelson loop: No runnable task - ${reason}`,
+          },
+        })
+        await client.tui.showToast({
+          body: {
+            message: `Nelson loop stopped: ${reason}`,
+            variant: "warning",
+          },
+        })
+        journal.loopEnded = reason
+        await removeState(directory, sessionId)
         return
       }
 
-      // Legacy mode (for nm-loop tool without plan file)
-      // Check if completion promise was detected in the last message
+      // Check if completion promise was detected
       if (state.completionPromise) {
         const completed = await checkCompletionInSession(sessionId, state.completionPromise)
+        journal.promiseDetected = completed
         if (completed) {
           await client.app.log({
             body: {
@@ -279,20 +592,19 @@ const NelsonMuntzPlugin: Plugin = async (ctx) => {
               message: `Nelson loop: Detected <promise>${state.completionPromise}</promise> - loop complete!`,
             },
           })
-
           await client.tui.showToast({
             body: {
               message: `Nelson loop completed after ${state.iteration} iterations!`,
               variant: "success",
             },
           })
-
-          await removeState(directory)
+          journal.loopEnded = "completion promise detected"
+          await removeState(directory, sessionId)
           return
         }
       }
 
-      // Check if max iterations reached
+      // Check max iterations
       if (state.maxIterations > 0 && state.iteration >= state.maxIterations) {
         await client.app.log({
           body: {
@@ -301,28 +613,58 @@ const NelsonMuntzPlugin: Plugin = async (ctx) => {
             message: `Nelson loop: Max iterations (${state.maxIterations}) reached.`,
           },
         })
-
         await client.tui.showToast({
           body: {
             message: `Nelson loop: Max iterations (${state.maxIterations}) reached.`,
             variant: "warning",
           },
         })
-
-        await removeState(directory)
+        journal.loopEnded = "max iterations reached"
+        await removeState(directory, sessionId)
         return
       }
 
-      // Increment iteration and continue the loop
+      // Continue to next task
+      const nextTask = plan.tasks[nextPendingIdx]
+      const nextTaskNum = nextPendingIdx + 1
       state.iteration++
-      await writeState(directory, state)
-
-      // Build system message
-      let systemMsg: string
-      if (state.completionPromise) {
-        systemMsg = `🔄 Nelson iteration ${state.iteration} | To stop: output <promise>${state.completionPromise}</promise> (ONLY when statement is TRUE - do not lie to exit!)`
-      } else {
-        systemMsg = `🔄 Nelson iteration ${state.iteration} | No completion promise set - loop runs infinitely`
+      state.iterationStartedAt = new Date().toISOString()
+      if (nextTaskNum !== state.currentTaskNum || !verifyFailure) {
+        state.commitFailures = 0
+      }
+      state.currentTaskId = nextTask.id
+      state.currentTaskNum = nextTaskNum
+      state.verifyFailure = verifyFailure
+      await writeState(directory, sessionId, state)
+
+      // Show the task as in progress on disk so a crash leaves a visible trail
+      await setTaskStatus(directory, state.planFile, nextTaskNum, "in_progress")
+
+      const projectTools = await detectProjectTools(state.worktree || directory)
+      const taskPrompt = generateSingleTaskPrompt(
+        plan,
+        nextTask,
+        nextTaskNum,
+        true,
+        projectTools,
+        verifyFailure,
+        state.worktree,
+        state.planFile,
+      )
+      const completedCount = plan.tasks.filter((t) => t.status === "completed").length
+
+      let systemMsg = `🔄 Nelson iteration ${state.iteration} | Task ${nextTaskNum}/${plan.tasks.length} (${completedCount} complete)`
+      if (verifyFailure) {
+        systemMsg +=
+          verifyFailure.command === COMMIT_FAILURE_COMMAND
+            ? ` | Retrying after rejected commit`
+            : ` | Retrying after failed verification`
+      } else if (pendingSubtasks.length > 0 && retryCurrent) {
+        systemMsg += ` | Subtasks still unchecked: ${pendingSubtasks.map((sub) => sub.title).join("; ")}`
+      } else if (unmetCriteria.length > 0 && retryCurrent) {
+        systemMsg += ` | Acceptance criteria not met: ${unmetCriteria.join("; ")}`
+      } else if (missingSignal && retryCurrent) {
+        systemMsg += ` | Task not signalled as done - continue it, then output <task-done>${nextTaskNum}</task-done>`
       }
 
       await client.app.log({
@@ -333,7 +675,6 @@ const NelsonMuntzPlugin: Plugin = async (ctx) => {
         },
       })
 
-      // Send the prompt back to continue the session
       try {
         await client.session.prompt({
           path: { id: sessionId },
@@ -341,12 +682,13 @@ const NelsonMuntzPlugin: Plugin = async (ctx) => {
             parts: [
               {
                 type: "text",
-                text: `${systemMsg}\n\n---\n\n${state.prompt}`,
+                text: `${systemMsg}\n\n---\n\n${taskPrompt}`,
               },
             ],
           },
         })
       } catch (error) {
+        journal.errors.push(String(error))
         await client.app.log({
           body: {
             service: "nelson-muntz",
@@ -355,12 +697,177 @@ const NelsonMuntzPlugin: Plugin = async (ctx) => {
           },
         })
       }
+      return
+    }
+
+    // Legacy mode (for nm-loop tool without plan file)
+    // Check if completion promise was detected in the last message
+    if (state.completionPromise) {
+      const completed = await checkCompletionInSession(sessionId, state.completionPromise)
+      journal.promiseDetected = completed
+      if (completed) {
+        await client.app.log({
+          body: {
+            service: "nelson-muntz",
+            level: "info",
+            message: `Nelson loop: Detected <promise>${state.completionPromise}</promise> - loop complete!`,
+          },
+        })
+
+        await client.tui.showToast({
+          body: {
+            message: `Nelson loop completed after ${state.iteration} iterations!`,
+            variant: "success",
+          },
+        })
+
+        journal.loopEnded = "completion promise detected"
+        await removeState(directory, sessionId)
+        return
+      }
+    }
+
+    // Check if max iterations reached
+    if (state.maxIterations > 0 && state.iteration >= state.maxIterations) {
+      await client.app.log({
+        body: {
+          service: "nelson-muntz",
+          level: "info",
+          message: `Nelson loop: Max iterations (${state.maxIterations}) reached.`,
+        },
+      })
+
+      await client.tui.showToast({
+        body: {
+          message: `Nelson loop: Max iterations (${state.maxIterations}) reached.`,
+          variant: "warning",
+        },
+      })
+
+      journal.loopEnded = "max iterations reached"
+      await removeState(directory, sessionId)
+      return
+    }
+
+    // Increment iteration and continue the loop
+    state.iteration++
+    state.iterationStartedAt = new Date().toISOString()
+    await writeState(directory, sessionId, state)
+
+    // Build system message
+    let systemMsg: string
+    if (state.completionPromise) {
+      systemMsg = `🔄 Nelson iteration ${state.iteration} | To stop: output <promise>${state.completionPromise}</promise> (ONLY when statement is TRUE - do not lie to exit!)`
+    } else {
+      systemMsg = `🔄 Nelson iteration ${state.iteration} | No completion promise set - loop runs infinitely`
+    }
+
+    await client.app.log({
+      body: {
+        service: "nelson-muntz",
+        level: "info",
+        message: systemMsg,
+      },
+    })
+
+    // Send the prompt back to continue the session
+    try {
+      await client.session.prompt({
+        path: { id: sessionId },
+        body: {
+          parts: [
+            {
+              type: "text",
+              text: `${systemMsg}\n\n---\n\n${state.prompt}`,
+            },
+          ],
+        },
+      })
+    } catch (error) {
+      journal.errors.push(String(error))
+      await client.app.log({
+        body: {
+          service: "nelson-muntz",
+          level: "error",
+          message: `Nelson loop: Failed to send prompt - ${error}`,
+        },
+      })
+    }
+  }
+
+  return {
+    // Listen for session idle to continue the Nelson loop
+    event: async ({ event }) => {
+      if (event.type !== "session.idle") return
+
+      // Only advance the loop that belongs to the idle session
+      const props = event.properties as { sessionID?: string; sessionId?: string }
+      const sessionId = props?.sessionID || props?.sessionId
+      if (!sessionId) return
+
+      let state = await readState(directory, sessionId)
+      if (!state) {
+        // Adopt a loop that was started without a session ID
+        const unbound = await readState(directory, null)
+        if (unbound?.active) {
+          unbound.sessionId = sessionId
+          await writeState(directory, sessionId, unbound)
+          await removeState(directory, null)
+          state = unbound
+          await client.app.log({
+            body: {
+              service: "nelson-muntz",
+              level: "info",
+              message: `Nelson loop: Attached unbound loop to session ${sessionId}.`,
+            },
+          })
+        }
+      }
+      if (!state || !state.active) return
+
+      // Record this iteration in the run journal, however it ends
+      const journal: JournalEntry = {
+        sessionId,
+        mode: state.mode ?? "prompt",
+        planFile: state.planFile ?? null,
+        taskNum: state.currentTaskNum ?? null,
+        taskTitle: null,
+        iteration: state.iteration,
+        startedAt: state.iterationStartedAt ?? state.startedAt,
+        endedAt: "",
+        taskStatus: null,
+        verifyPassed: null,
+        commitSha: null,
+        commitMessage: null,
+        promiseDetected: null,
+        signal: null,
+        loopEnded: null,
+        errors: [],
+      }
+
+      try {
+        await advanceLoop(state, sessionId, journal)
+      } finally {
+        journal.endedAt = new Date().toISOString()
+        try {
+          await appendJournal(directory, journal)
+        } catch (err) {
+          await client.app.log({
+            body: {
+              service: "nelson-muntz",
+              level: "warn",
+              message: `Nelson loop: Failed to write journal - ${err}`,
+            },
+          })
+        }
+      }
     },
 
     // Custom tools for Nelson loop management
     tool: {
       ...createLoopTools(directory),
       ...createPlanTools(directory),
+      ...createGitTools(directory),
     },
   }
 }
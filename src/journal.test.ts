@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test"
+import * as path from "node:path"
+import * as os from "node:os"
+import * as fs from "node:fs/promises"
+import type { JournalEntry } from "./types"
+import { NELSON_JOURNAL_FILE, appendJournal, readJournal } from "./journal"
+
+describe("readJournal", () => {
+  const entry = (planFile: string | null, startedAt: string, endedAt: string): JournalEntry => ({
+    sessionId: "ses-1",
+    mode: planFile ? "loop" : "prompt",
+    planFile,
+    taskNum: null,
+    taskTitle: null,
+    iteration: 1,
+    startedAt,
+    endedAt,
+    taskStatus: null,
+    verifyPassed: null,
+    commitSha: null,
+    commitMessage: null,
+    promiseDetected: null,
+    signal: null,
+    loopEnded: null,
+    errors: [],
+  })
+
+  const createJournal = async (): Promise<string> => {
+    const dir = path.join(os.tmpdir(), `nelson-journal-test-${Date.now()}`)
+    await fs.mkdir(dir, { recursive: true })
+    await appendJournal(dir, entry("a.md", "2026-01-01T10:00:00Z", "2026-01-01T10:05:00Z"))
+    await appendJournal(dir, entry("b.md", "2026-01-02T10:00:00Z", "2026-01-02T10:05:00Z"))
+    await appendJournal(dir, entry("a.md", "2026-01-03T23:58:00Z", "2026-01-04T00:02:00Z"))
+    await appendJournal(dir, entry(null, "2026-01-05T10:00:00Z", "2026-01-05T10:05:00Z"))
+    return dir
+  }
+
+  test("returns nothing without a journal", async () => {
+    expect(await readJournal(path.join(os.tmpdir(), `nelson-no-journal-${Date.now()}`))).toEqual([])
+  })
+
+  test("reads every entry oldest first, skipping partial lines", async () => {
+    const dir = await createJournal()
+    try {
+      await fs.appendFile(path.join(dir, NELSON_JOURNAL_FILE), '{"sessionId": "ses-1", "mo')
+      const entries = await readJournal(dir)
+      expect(entries.map((e) => e.startedAt.slice(0, 10))).toEqual([
+        "2026-01-01",
+        "2026-01-02",
+        "2026-01-03",
+        "2026-01-05",
+      ])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("filters by plan file", async () => {
+    const dir = await createJournal()
+    try {
+      const entries = await readJournal(dir, { planFile: "a.md" })
+      expect(entries.map((e) => e.startedAt.slice(0, 10))).toEqual(["2026-01-01", "2026-01-03"])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("keeps entries that overlap the date range", async () => {
+    const dir = await createJournal()
+    try {
+      // The third entry started before the 4th but ended after it
+      const since = await readJournal(dir, { since: new Date("2026-01-04T00:00:00Z") })
+      expect(since.map((e) => e.startedAt.slice(0, 10))).toEqual(["2026-01-03", "2026-01-05"])
+
+      const until = await readJournal(dir, { until: new Date("2026-01-02T10:00:00Z") })
+      expect(until.map((e) => e.startedAt.slice(0, 10))).toEqual(["2026-01-01"])
+
+      const both = await readJournal(dir, {
+        planFile: "a.md",
+        since: new Date("2026-01-02T00:00:00Z"),
+        until: new Date("2026-01-05T00:00:00Z"),
+      })
+      expect(both.map((e) => e.startedAt.slice(0, 10))).toEqual(["2026-01-03"])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
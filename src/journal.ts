@@ -0,0 +1,65 @@
+import * as path from "node:path"
+import { appendFile, mkdir } from "node:fs/promises"
+import type { JournalEntry, TaskCompletionResult } from "./types"
+
+export const NELSON_JOURNAL_FILE = ".opencode/nelson-journal.jsonl"
+
+/**
+ * Append one iteration record to the run journal
+ */
+export async function appendJournal(directory: string, entry: JournalEntry): Promise<void> {
+  const journalPath = path.join(directory, NELSON_JOURNAL_FILE)
+  await mkdir(path.dirname(journalPath), { recursive: true })
+  await appendFile(journalPath, JSON.stringify(entry) + "\n")
+}
+
+/**
+ * Read journal entries, oldest first, optionally filtered by plan file and date range.
+ *
+ * @param filter.planFile - Only entries for this plan file
+ * @param filter.since - Only entries that ended at or after this date
+ * @param filter.until - Only entries that started before this date
+ */
+export async function readJournal(
+  directory: string,
+  filter: { planFile?: string; since?: Date; until?: Date } = {},
+): Promise<JournalEntry[]> {
+  const journalPath = path.join(directory, NELSON_JOURNAL_FILE)
+  let content: string
+  try {
+    const file = Bun.file(journalPath)
+    if (!(await file.exists())) return []
+    content = await file.text()
+  } catch {
+    // Journal unreadable
+    return []
+  }
+
+  const entries: JournalEntry[] = []
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      entries.push(JSON.parse(line))
+    } catch {
+      // Skip partially written lines
+    }
+  }
+
+  return entries.filter((entry) => {
+    if (filter.planFile && entry.planFile !== filter.planFile) return false
+    if (filter.since && new Date(entry.endedAt) < filter.since) return false
+    if (filter.until && new Date(entry.startedAt) >= filter.until) return false
+    return true
+  })
+}
+
+/**
+ * Copy the outcome of a task completion attempt onto a journal entry
+ */
+export function recordTaskResult(entry: JournalEntry, result: TaskCompletionResult): void {
+  entry.taskTitle = result.taskTitle
+  entry.taskStatus = result.status
+  entry.verifyPassed = result.verifyResult ? result.verifyResult.success : null
+  entry.commitSha = result.commitResult?.sha ?? null
+  entry.commitMessage = result.commitResult?.message ?? null
+}
@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test"
+import { lintPlan, formatDiagnostics } from "./lint"
+import { renderStructuredPlan } from "./plan"
+import { BUILTIN_PLAN_TEMPLATES, fillPlanTemplate } from "./templates"
+
+describe("lintPlan", () => {
+  test("accepts the built-in plan templates", () => {
+    for (const template of Object.values(BUILTIN_PLAN_TEMPLATES)) {
+      const content = fillPlanTemplate(template, { name: "Plan", slug: "plan" })
+      expect(lintPlan(content)).toEqual([])
+    }
+  })
+
+  test("reports tasks outside the Tasks section as errors", () => {
+    const diagnostics = lintPlan(`# Plan
+
+## Overview
+
+Build it.
+
+## Tasks
+
+- [ ] **Build it**
+  Do the work
+
+## Notes
+
+- [ ] Remember the milk
+`)
+    expect(diagnostics.filter((d) => d.severity === "error")).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        line: 14,
+        message: expect.stringContaining('under "## Notes"'),
+      }),
+    ])
+  })
+
+  test("warns about duplicate titles, missing descriptions and a missing overview", () => {
+    const diagnostics = lintPlan(`# Plan
+
+## Tasks
+
+- [ ] **Add tests**
+  For the parser
+- [x] **Ship it**
+- [ ] **Add tests**
+`)
+    expect(diagnostics.map((d) => [d.severity, d.line])).toEqual([
+      ["warning", null],
+      ["warning", 8],
+      ["warning", 8],
+    ])
+    expect(diagnostics[1].message).toContain("same title as task 1")
+    expect(diagnostics[2].message).toContain("no description")
+  })
+
+  test("warns about metadata lines that are read as description text", () => {
+    const diagnostics = lintPlan(`---
+verify: bun test
+---
+# Plan
+
+## Overview
+
+Build it.
+
+## Tasks
+
+- [ ] **Build it**
+  Do the work
+  verify: bun test src/build.test.ts
+  type: \`fix\`
+  depends: 1
+`)
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: "warning", line: 14 }),
+      expect.objectContaining({ severity: "warning", line: 16 }),
+    ])
+    expect(diagnostics[0].message).toContain("read as description text")
+    expect(diagnostics[1].message).toContain("not as a `depends:` setting")
+  })
+
+  test("reports dependency problems on the task that has them", () => {
+    const plan = (tasks: string) => `# Plan
+
+## Overview
+
+Build it.
+
+## Tasks
+
+${tasks}`
+    const unknown = lintPlan(
+      plan("- [ ] **A**\n  Do A\n- [ ] **B**\n  depends: \`schema\`\n  Do B\n"),
+    )
+    expect(unknown).toEqual([
+      {
+        severity: "error",
+        line: 11,
+        message: 'Task 2 (B) depends on unknown task "schema".',
+        fix: 'Remove "schema" from its depends, or add a task with ID "schema"',
+      },
+    ])
+
+    const cycle = lintPlan(
+      plan("- [ ] **A**\n  depends: \`2\`\n  Do A\n- [ ] **B**\n  depends: \`1\`\n  Do B\n"),
+    )
+    expect(cycle).toEqual([
+      expect.objectContaining({
+        line: 9,
+        fix: "Remove one of these dependencies so the tasks can run",
+      }),
+    ])
+  })
+
+  test("reports JSON and YAML plans without markdown line numbers", () => {
+    const content = renderStructuredPlan({
+      title: "Plan",
+      tasks: [{ title: "Build it" }, { title: "Build it", description: "Again" }],
+    })
+    const diagnostics = lintPlan(content, "yaml")
+    expect(diagnostics.map((d) => d.line)).toEqual([null, null, null])
+    expect(diagnostics.map((d) => d.fix)).toEqual([
+      "Add an `overview` field describing the goal and constraints",
+      "Rename one of them",
+      "Give the task a `description` saying what done looks like",
+    ])
+  })
+
+  test("checks the <promise> against completion_promise", () => {
+    const mismatch = lintPlan(`---
+completion_promise: DONE
+---
+# Plan
+
+## Overview
+
+Build it.
+
+## Tasks
+
+- [ ] **Build it**
+  Do the work
+
+## Completion
+
+<promise>ALL_DONE</promise>
+`)
+    expect(mismatch).toEqual([expect.objectContaining({ severity: "error", line: 17 })])
+    expect(formatDiagnostics(mismatch)).toContain(
+      '✖ line 17: <promise>ALL_DONE</promise> doesn\'t match completion_promise "DONE"',
+    )
+  })
+})
@@ -0,0 +1,166 @@
+import type { PlanDiagnostic } from "./types"
+import {
+  parsePlanFile,
+  findDependencyProblem,
+  isRunnableStatus,
+  matchMetadataLine,
+  planFormat,
+} from "./plan"
+
+/**
+ * Check a plan for problems that parsePlanFile accepts silently. Errors stop nm-start;
+ * warnings are only reported.
+ *
+ * `content` is the plan as readPlanFile returns it. A JSON or YAML plan is read as
+ * markdown rendered from the file, so its diagnostics have no line numbers and their
+ * fixes name the file's fields instead.
+ *
+ * @returns Diagnostics ordered by line (plan-wide ones without a line come first)
+ */
+export function lintPlan(
+  content: string,
+  format: ReturnType<typeof planFormat> = "markdown",
+): PlanDiagnostic[] {
+  const plan = parsePlanFile(content)
+  const lines = content.split("\n")
+  const structured = format !== "markdown"
+  const diagnostics: PlanDiagnostic[] = []
+  const error = (line: number | null, message: string, fix?: string) =>
+    diagnostics.push({ severity: "error", line: structured ? null : line, message, fix })
+  const warning = (line: number | null, message: string, fix?: string) =>
+    diagnostics.push({ severity: "warning", line: structured ? null : line, message, fix })
+
+  if (plan.frontmatterError) {
+    error(1, structured ? plan.frontmatterError : `Invalid frontmatter: ${plan.frontmatterError}`)
+  }
+
+  if (!plan.title) {
+    warning(
+      null,
+      "The plan has no title",
+      structured ? "Add a `title` field" : "Add a `# Title` line at the top",
+    )
+  }
+  if (!plan.overview) {
+    warning(
+      null,
+      "The plan has no overview, so the agent only sees each task on its own",
+      structured
+        ? "Add an `overview` field describing the goal and constraints"
+        : "Add an `## Overview` section describing the goal and constraints",
+    )
+  }
+
+  if (plan.tasks.length === 0) {
+    error(
+      null,
+      "The plan has no tasks",
+      structured
+        ? "Add tasks to the `tasks` list, like `{ title: Task title }`"
+        : "Add tasks under `## Tasks` like `- [ ] **Task title**`",
+    )
+  }
+
+  // Tasks must sit in the ## Tasks section - a checkbox under e.g. ## Notes is still
+  // picked up and run by the loop
+  const headings = lines
+    .map((line, i) => ({ line: i + 1, text: line.match(/^##\s+(.+?)\s*$/)?.[1] }))
+    .filter((h): h is { line: number; text: string } => !!h.text)
+  if (plan.tasks.length > 0 && !headings.some((h) => /^Tasks/i.test(h.text))) {
+    warning(null, "The plan has no `## Tasks` section", "Put the tasks under a `## Tasks` heading")
+  } else {
+    plan.tasks.forEach((task, i) => {
+      const section = headings.filter((h) => h.line < task.lineNumber).pop()
+      if (section && /^Tasks/i.test(section.text)) return
+      error(
+        task.lineNumber,
+        `Task ${i + 1} (${task.title}) is outside the Tasks section${section ? ` (under "## ${section.text}")` : ""}, but the loop will still run it`,
+        "Move it under `## Tasks`, or make it a plain list item without a checkbox",
+      )
+    })
+  }
+
+  // Duplicate titles make `nm-task "title"` ambiguous
+  const titles = new Map<string, number>()
+  plan.tasks.forEach((task, i) => {
+    const key = task.title.toLowerCase()
+    const first = titles.get(key)
+    if (first === undefined) {
+      titles.set(key, i + 1)
+      return
+    }
+    warning(
+      task.lineNumber,
+      `Task ${i + 1} has the same title as task ${first} ("${task.title}"), so picking it by name is ambiguous`,
+      "Rename one of them",
+    )
+  })
+
+  plan.tasks.forEach((task, i) => {
+    if (!isRunnableStatus(task.status) || task.description || task.subtasks?.length) return
+    warning(
+      task.lineNumber,
+      `Task ${i + 1} (${task.title}) has no description, so the agent only has its title to go on`,
+      structured
+        ? "Give the task a `description` saying what done looks like"
+        : "Add indented lines under the task describing what done looks like",
+    )
+  })
+
+  const dependencyProblem = findDependencyProblem(plan.tasks)
+  if (dependencyProblem) {
+    error(dependencyProblem.task.lineNumber, dependencyProblem.message, dependencyProblem.fix)
+  }
+
+  // A bare "verify: bun test" is read as description text, so the command would never
+  // run (and a bare "depends: 1" would never hold the task back)
+  const bodyStart = lines[0]?.trim() === "---" ? lines.indexOf("---", 1) + 1 : 0
+  lines.forEach((line, i) => {
+    if (structured) return
+    const key = line.match(/^\s*(id|depends|verify|type|scope):\s*\S/)?.[1] as
+      "id" | "depends" | "verify" | "type" | "scope" | undefined
+    if (i < bodyStart || !key || matchMetadataLine(line, key)) return
+    warning(
+      i + 1,
+      `This \`${key}:\` line is read as description text, not as a \`${key}:\` setting`,
+      "Put the value in backticks, or wrap the line in an HTML comment",
+    )
+  })
+
+  // The <promise> the plan asks for must be the one the loop is listening for
+  lines.forEach((line, i) => {
+    const tag = line.match(/<promise>([\s\S]*?)<\/promise>/)
+    if (!tag) return
+    const promised = tag[1].trim().replace(/\s+/g, " ")
+    if (!plan.completionPromise) {
+      warning(
+        i + 1,
+        `The plan asks for <promise>${promised}</promise> but has no completion_promise, so the loop won't stop on it`,
+        structured
+          ? `Add \`completion_promise: ${promised}\` to the plan`
+          : `Add \`completion_promise: ${promised}\` to the frontmatter`,
+      )
+    } else if (promised !== plan.completionPromise) {
+      error(
+        i + 1,
+        `<promise>${promised}</promise> doesn't match completion_promise "${plan.completionPromise}", so the loop won't stop on it`,
+        `Change one so both read "${plan.completionPromise}"`,
+      )
+    }
+  })
+
+  return diagnostics.sort((a, b) => (a.line ?? 0) - (b.line ?? 0))
+}
+
+/**
+ * Format diagnostics for tool output, one per line with the suggested fix underneath
+ */
+export function formatDiagnostics(diagnostics: PlanDiagnostic[]): string {
+  return diagnostics
+    .map((d) => {
+      const where = d.line ? `line ${d.line}: ` : ""
+      const icon = d.severity === "error" ? "✖" : "⚠"
+      return `  ${icon} ${where}${d.message}${d.fix ? `\n    → ${d.fix}` : ""}`
+    })
+    .join("\n")
+}
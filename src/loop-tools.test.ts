@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test"
+import * as path from "node:path"
+import * as os from "node:os"
+import * as fs from "node:fs/promises"
+import type { NelsonState } from "./types"
+import { createLoopTools } from "./loop-tools"
+import { listStates, readState, writeState } from "./state"
+
+describe("pausing and resuming loops", () => {
+  const createProject = async (): Promise<string> => {
+    const dir = path.join(os.tmpdir(), `nelson-loop-test-${Date.now()}`)
+    await fs.mkdir(dir, { recursive: true })
+    await fs.writeFile(
+      path.join(dir, "plan.md"),
+      `# Plan
+
+## Tasks
+
+- [x] **Add a**
+- [~] **Add b**
+- [ ] **Add c**
+`,
+    )
+    return dir
+  }
+
+  const loopState = (sessionId: string, overrides: Partial<NelsonState> = {}): NelsonState => ({
+    active: true,
+    iteration: 4,
+    maxIterations: 10,
+    completionPromise: null,
+    prompt: "Keep going",
+    sessionId,
+    startedAt: "2026-01-01T10:00:00Z",
+    planFile: "plan.md",
+    mode: "loop",
+    currentTaskNum: 2,
+    ...overrides,
+  })
+
+  const run = (dir: string, toolName: "nm-pause" | "nm-resume", sessionID: string, args = {}) =>
+    createLoopTools(dir)[toolName].execute(args, { sessionID } as never)
+
+  test("pauses a loop and keeps its progress", async () => {
+    const dir = await createProject()
+    try {
+      await writeState(dir, "ses-1", loopState("ses-1"))
+
+      const paused = await run(dir, "nm-pause", "ses-1")
+      expect(paused).toStartWith("⏸ Paused Nelson loop for plan.md at iteration 4, task 2.")
+      const state = await readState(dir, "ses-1")
+      expect(state?.active).toBe(false)
+      expect(state?.pausedAt).toBeString()
+      expect(state?.iteration).toBe(4)
+      expect(state?.startedAt).toBe("2026-01-01T10:00:00Z")
+
+      expect(await run(dir, "nm-pause", "ses-1")).toStartWith("Nelson loop is already paused")
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("resumes a paused loop in another session", async () => {
+    const dir = await createProject()
+    try {
+      await writeState(dir, "ses-1", loopState("ses-1", { active: false, pausedAt: "now" }))
+
+      const resumed = await run(dir, "nm-resume", "ses-2")
+      expect(resumed).toStartWith("▶️ Resumed Nelson loop for plan.md at iteration 4, task 2.")
+      expect(resumed).toContain("Add b")
+
+      // The loop moved to the new session rather than being copied
+      const states = await listStates(dir)
+      expect(states).toHaveLength(1)
+      expect(states[0].sessionId).toBe("ses-2")
+      expect(states[0].active).toBe(true)
+      expect(states[0].pausedAt).toBeUndefined()
+      expect(states[0].iteration).toBe(4)
+      expect(states[0].startedAt).toBe("2026-01-01T10:00:00Z")
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("moves on when the paused task was finished by hand", async () => {
+    const dir = await createProject()
+    try {
+      await writeState(dir, "ses-1", loopState("ses-1", { active: false }))
+      const plan = path.join(dir, "plan.md")
+      await fs.writeFile(plan, (await fs.readFile(plan, "utf8")).replace("[~]", "[x]"))
+
+      const resumed = await run(dir, "nm-resume", "ses-1")
+      expect(resumed).toStartWith("▶️ Resumed Nelson loop for plan.md at iteration 4, task 3.")
+      expect((await readState(dir, "ses-1"))?.currentTaskNum).toBe(3)
+      expect(await fs.readFile(plan, "utf8")).toContain("- [~] **Add c**")
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("won't resume over this session's own loop", async () => {
+    const dir = await createProject()
+    try {
+      await writeState(dir, "ses-1", loopState("ses-1", { active: false }))
+      await writeState(dir, "ses-2", loopState("ses-2", { planFile: "other.md" }))
+
+      const resumed = await run(dir, "nm-resume", "ses-2", { session: "ses-1" })
+      expect(resumed).toStartWith("This session already has a running Nelson loop.")
+      expect((await readState(dir, "ses-1"))?.active).toBe(false)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -1,7 +1,45 @@
 import { tool } from "@opencode-ai/plugin"
 import type { NelsonState } from "./types"
-import { readState, writeState, removeState } from "./state"
-import { extractPromiseText } from "./utils"
+import { readState, writeState, removeState, listStates } from "./state"
+import { extractPromiseText, detectProjectTools } from "./utils"
+import { readJournal } from "./journal"
+import {
+  resolvePlanFile,
+  readPlanFile,
+  parsePlanFile,
+  setTaskStatus,
+  isRunnableStatus,
+  findNextTaskIndex,
+} from "./plan"
+import { generateSingleTaskPrompt } from "./prompts"
+
+/**
+ * Format a one-line summary of a loop for listings
+ */
+function formatLoopSummary(state: NelsonState): string {
+  const target = state.planFile
+    ? `${state.planFile}${state.currentTaskNum ? ` (task ${state.currentTaskNum})` : ""}`
+    : "direct prompt"
+  const paused = state.active ? "" : ` ⏸ PAUSED since ${state.pausedAt ?? "unknown"}`
+  return `• ${state.sessionId || "unbound"} - ${state.mode || "loop"} on ${target}, iteration ${state.iteration}, started ${state.startedAt}${paused}`
+}
+
+/**
+ * Find the loop targeted by a tool call: by session ID, by plan, or the current session's loop
+ */
+function findTargetLoop(
+  states: NelsonState[],
+  target: { session?: string; planFile?: string },
+  currentSessionId: string | null,
+): NelsonState | undefined {
+  if (target.session) {
+    return states.find((s) => s.sessionId === target.session)
+  }
+  if (target.planFile) {
+    return states.find((s) => s.planFile === target.planFile)
+  }
+  return states.find((s) => s.sessionId === currentSessionId)
+}
 
 /**
  * Create loop-related tools for Nelson Muntz
@@ -41,15 +79,15 @@ Example: Start a loop to build a REST API that runs until "DONE" is output.`,
           return "Error: No prompt provided. Please provide a task description."
         }
 
-        // Check if there's already an active loop
-        const existingState = await readState(directory)
-        if (existingState?.active) {
-          return `Error: A Nelson loop is already active (iteration ${existingState.iteration}). Use the nm-cancel tool to cancel it first.`
-        }
-
         // Get session ID from tool context
         const sessionId = (toolCtx as { sessionID?: string })?.sessionID || null
 
+        // Check if there's already an active loop in this session
+        const existingState = await readState(directory, sessionId)
+        if (existingState) {
+          return `Error: A Nelson loop is already ${existingState.active ? "active" : "paused"} in this session (iteration ${existingState.iteration}). Use the nm-cancel tool to cancel it first.`
+        }
+
         // Create state file
         const state: NelsonState = {
           active: true,
@@ -60,7 +98,7 @@ Example: Start a loop to build a REST API that runs until "DONE" is output.`,
           sessionId: sessionId,
           startedAt: new Date().toISOString(),
         }
-        await writeState(directory, state)
+        await writeState(directory, sessionId, state)
 
         let output = `🔄 Nelson loop activated!
 
@@ -111,42 +149,331 @@ IMPORTANT - Do not circumvent the loop:
     }),
 
     "nm-cancel": tool({
-      description: "Cancel an active Nelson Muntz loop",
-      args: {},
-      async execute() {
-        const state = await readState(directory)
+      description: `Cancel an active or paused Nelson Muntz loop.
 
-        if (!state || !state.active) {
-          return "No active Nelson loop found."
+By default cancels the loop belonging to the current session. Use 'session'
+or the plan 'name'/'file' to target a loop running in another session
+(nm-status lists all loops).`,
+      args: {
+        session: tool.schema.string().optional().describe("Session ID of the loop to cancel"),
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Cancel the loop running this plan name (resolves to .opencode/plans/{slug}.md)",
+          ),
+        file: tool.schema.string().optional().describe("Cancel the loop running this plan file"),
+      },
+      async execute(args, toolCtx) {
+        const currentSessionId = (toolCtx as { sessionID?: string })?.sessionID || null
+        const states = await listStates(directory)
+        const planFile = args.name ? resolvePlanFile(args.name, directory) : args.file
+        const state = findTargetLoop(states, { session: args.session, planFile }, currentSessionId)
+
+        if (!state) {
+          if (states.length === 0) {
+            return "No active Nelson loop found."
+          }
+          return `No matching Nelson loop found. Loops:
+${states.map(formatLoopSummary).join("\n")}
+
+Use nm-cancel with 'session' or 'name' to cancel one of these.`
         }
 
         const iteration = state.iteration
-        await removeState(directory)
+        await removeState(directory, state.sessionId)
+
+        // Put the interrupted task back to pending so it doesn't look like it's still running
+        if (state.planFile && state.currentTaskNum) {
+          const content = await readPlanFile(directory, state.planFile)
+          const task = content ? parsePlanFile(content).tasks[state.currentTaskNum - 1] : null
+          if (task?.status === "in_progress") {
+            await setTaskStatus(directory, state.planFile, state.currentTaskNum, "pending")
+          }
+        }
+
+        let output = `🛑 Cancelled Nelson loop${state.planFile ? ` for ${state.planFile}` : ""} (was at iteration ${iteration})`
+        if (state.worktree) {
+          output += `\n\nThe worktree at ${state.worktree} was kept. Use nm-worktree to merge or discard it.`
+        }
+        return output
+      },
+    }),
+
+    "nm-pause": tool({
+      description: `Pause a Nelson Muntz loop without losing its progress.
+
+The loop stops advancing when the session goes idle, but its state (iteration,
+current task, start time) is kept so nm-resume can pick it up later - from this
+or any other session. By default pauses the current session's loop.`,
+      args: {
+        session: tool.schema.string().optional().describe("Session ID of the loop to pause"),
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Pause the loop running this plan name (resolves to .opencode/plans/{slug}.md)",
+          ),
+        file: tool.schema.string().optional().describe("Pause the loop running this plan file"),
+      },
+      async execute(args, toolCtx) {
+        const currentSessionId = (toolCtx as { sessionID?: string })?.sessionID || null
+        const states = await listStates(directory)
+        const planFile = args.name ? resolvePlanFile(args.name, directory) : args.file
+        const state = findTargetLoop(states, { session: args.session, planFile }, currentSessionId)
+
+        if (!state) {
+          return states.length === 0
+            ? "No active Nelson loop found."
+            : `No matching Nelson loop found. Loops:\n${states.map(formatLoopSummary).join("\n")}`
+        }
+
+        if (!state.active) {
+          return `Nelson loop is already paused (since ${state.pausedAt ?? "unknown"}). Use nm-resume to continue it.`
+        }
+
+        state.active = false
+        state.pausedAt = new Date().toISOString()
+        await writeState(directory, state.sessionId, state)
+
+        return `⏸ Paused Nelson loop${state.planFile ? ` for ${state.planFile}` : ""} at iteration ${state.iteration}${state.currentTaskNum ? `, task ${state.currentTaskNum}` : ""}.
+
+Use nm-resume to continue it (in this or another session), or nm-cancel to discard it.`
+      },
+    }),
+
+    "nm-resume": tool({
+      description: `Resume a paused Nelson Muntz loop in the current session.
+
+Reattaches the loop to this session, keeps its iteration count and start time,
+and returns the current task prompt so work continues where it left off.
+Without arguments, resumes this session's paused loop or the only paused loop.`,
+      args: {
+        session: tool.schema
+          .string()
+          .optional()
+          .describe("Session ID the paused loop was running in"),
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Resume the paused loop for this plan name (resolves to .opencode/plans/{slug}.md)",
+          ),
+        file: tool.schema.string().optional().describe("Resume the paused loop for this plan file"),
+      },
+      async execute(args, toolCtx) {
+        const currentSessionId = (toolCtx as { sessionID?: string })?.sessionID || null
+        const paused = (await listStates(directory)).filter((s) => !s.active)
+        const planFile = args.name ? resolvePlanFile(args.name, directory) : args.file
+        let state = findTargetLoop(paused, { session: args.session, planFile }, currentSessionId)
+        if (!state && !args.session && !planFile && paused.length === 1) {
+          state = paused[0]
+        }
+
+        if (!state) {
+          if (paused.length === 0) {
+            return "No paused Nelson loop found."
+          }
+          return `Several loops are paused - choose one with 'session' or 'name':\n${paused.map(formatLoopSummary).join("\n")}`
+        }
+
+        // Don't clobber a different loop that already belongs to this session
+        const currentState = await readState(directory, currentSessionId)
+        if (currentState && state.sessionId !== currentSessionId) {
+          return `This session already has a ${currentState.active ? "running" : "paused"} Nelson loop. Cancel it with nm-cancel before resuming another one here.`
+        }
 
-        return `🛑 Cancelled Nelson loop (was at iteration ${iteration})`
+        const previousSessionId = state.sessionId
+        state.active = true
+        state.sessionId = currentSessionId
+        state.iterationStartedAt = new Date().toISOString()
+        delete state.pausedAt
+        if (previousSessionId !== currentSessionId) {
+          await removeState(directory, previousSessionId)
+        }
+
+        // Direct prompt loops just get their prompt back
+        if (!state.planFile) {
+          await writeState(directory, currentSessionId, state)
+          return `▶️ Resumed Nelson loop at iteration ${state.iteration}.
+
+---
+
+${state.prompt}`
+        }
+
+        const content = await readPlanFile(directory, state.planFile)
+        if (!content) {
+          await writeState(directory, currentSessionId, state)
+          return `▶️ Resumed Nelson loop, but plan file ${state.planFile} was not found. Use nm-cancel to stop it.`
+        }
+
+        // The paused task may have been finished or skipped by hand in the meantime
+        const plan = parsePlanFile(content)
+        let taskIdx = state.currentTaskNum ? state.currentTaskNum - 1 : -1
+        if (!plan.tasks[taskIdx] || !isRunnableStatus(plan.tasks[taskIdx].status)) {
+          taskIdx = state.mode === "loop" ? findNextTaskIndex(plan.tasks) : -1
+        }
+        if (taskIdx === -1) {
+          await removeState(directory, currentSessionId)
+          return `Nothing left to resume in ${state.planFile} - the paused task is no longer pending. The loop has been removed.`
+        }
+
+        const task = plan.tasks[taskIdx]
+        state.currentTaskId = task.id
+        state.currentTaskNum = taskIdx + 1
+        await writeState(directory, currentSessionId, state)
+        await setTaskStatus(directory, state.planFile, state.currentTaskNum, "in_progress")
+
+        const projectTools = await detectProjectTools(state.worktree || directory)
+        const taskPrompt = generateSingleTaskPrompt(
+          plan,
+          task,
+          state.currentTaskNum,
+          state.mode === "loop",
+          projectTools,
+          state.verifyFailure,
+          state.worktree,
+          state.planFile,
+        )
+
+        return `▶️ Resumed Nelson loop for ${state.planFile} at iteration ${state.iteration}, task ${state.currentTaskNum}.
+
+---
+
+${taskPrompt}`
       },
     }),
 
     "nm-status": tool({
-      description: "Check the status of the current Nelson Muntz loop",
-      args: {},
-      async execute() {
-        const state = await readState(directory)
+      description: `Check the status of Nelson Muntz loops.
 
-        if (!state || !state.active) {
+Shows the loop for the current session (or the given 'session') in detail,
+followed by every other loop in this project. Paused loops are marked ⏸.`,
+      args: {
+        session: tool.schema.string().optional().describe("Session ID of the loop to show"),
+      },
+      async execute(args, toolCtx) {
+        const sessionId = args.session || (toolCtx as { sessionID?: string })?.sessionID || null
+        const states = await listStates(directory)
+
+        if (states.length === 0) {
           return "No active Nelson loop."
         }
 
-        return `📊 Nelson Loop Status:
-- Active: ${state.active}
+        const state = states.find((s) => s.sessionId === sessionId)
+        const others = states.filter((s) => s !== state)
+
+        let output = ""
+        if (state) {
+          output += `📊 Nelson Loop Status:
+- Active: ${state.active}${state.active ? "" : ` (⏸ paused at ${state.pausedAt ?? "unknown"} - use nm-resume to continue)`}
 - Iteration: ${state.iteration}
 - Max iterations: ${state.maxIterations > 0 ? state.maxIterations : "unlimited"}
 - Completion promise: ${state.completionPromise || "none"}
 - Session ID: ${state.sessionId || "unknown"}
-- Started at: ${state.startedAt}
+- Started at: ${state.startedAt}`
+          if (state.planFile) {
+            output += `\n- Plan: ${state.planFile}`
+            output += `\n- Current task: ${state.currentTaskNum ?? "none"}`
+          }
+          if (state.branch) {
+            output += `\n- Branch: ${state.branch}`
+          }
+          if (state.worktree) {
+            output += `\n- Worktree: ${state.worktree}`
+          }
+          if (state.prompt) {
+            output += `\n\nPrompt:\n${state.prompt}`
+          }
+        } else {
+          output += `No active Nelson loop in this session.`
+        }
 
-Prompt:
-${state.prompt}`
+        if (others.length > 0) {
+          output += `\n\nOther loops (${others.length}):\n${others.map(formatLoopSummary).join("\n")}`
+        }
+
+        return output
+      },
+    }),
+
+    "nm-history": tool({
+      description: `Show past Nelson loop iterations from the run journal (.opencode/nelson-journal.jsonl).
+
+Every iteration is recorded when its session goes idle: plan, task, timestamps,
+verification and commit results, and why the loop ended. Filter by plan and/or date.`,
+      args: {
+        name: tool.schema
+          .string()
+          .optional()
+          .describe("Plan name (e.g., 'rest-api') - resolves to .opencode/plans/{slug}.md"),
+        file: tool.schema.string().optional().describe("Plan file path"),
+        since: tool.schema
+          .string()
+          .optional()
+          .describe("Only iterations ending on/after this date (e.g. 2024-06-01)"),
+        until: tool.schema
+          .string()
+          .optional()
+          .describe("Only iterations starting before this date (e.g. 2024-06-30)"),
+        limit: tool.schema
+          .number()
+          .optional()
+          .describe("Maximum number of iterations to show, newest first (default: 20)"),
+      },
+      async execute(args) {
+        const planFile = args.name ? resolvePlanFile(args.name, directory) : args.file
+        const since = args.since ? new Date(args.since) : undefined
+        const until = args.until ? new Date(args.until) : undefined
+        if (since && isNaN(since.getTime())) {
+          return `Error: Invalid 'since' date "${args.since}". Use a date like 2024-06-01.`
+        }
+        if (until && isNaN(until.getTime())) {
+          return `Error: Invalid 'until' date "${args.until}". Use a date like 2024-06-30.`
+        }
+
+        const entries = await readJournal(directory, { planFile, since, until })
+        if (entries.length === 0) {
+          return `No Nelson history found${planFile ? ` for ${planFile}` : ""}.`
+        }
+
+        const limit = args.limit ?? 20
+        const shown = entries.slice(-limit).reverse()
+        const runs = entries.filter((e) => e.loopEnded).length
+
+        let output = `📜 Nelson history${planFile ? ` for ${planFile}` : ""}: ${entries.length} iterations, ${runs} finished runs`
+        if (shown.length < entries.length) {
+          output += ` (showing latest ${shown.length})`
+        }
+        output += `\n\n`
+
+        for (const entry of shown) {
+          const target = entry.planFile
+            ? `${entry.planFile}${entry.taskNum ? ` task ${entry.taskNum}` : ""}`
+            : "direct prompt"
+          output += `• ${entry.startedAt} → ${entry.endedAt} | ${target} | iteration ${entry.iteration}\n`
+          if (entry.taskTitle) {
+            output += `    ${entry.taskTitle} (${entry.taskStatus ?? "unknown"})\n`
+          }
+          if (entry.verifyPassed === false) {
+            output += `    Verification failed\n`
+          }
+          if (entry.commitMessage) {
+            output += `    ${entry.commitSha ? `${entry.commitSha.slice(0, 7)} ` : ""}${entry.commitMessage}\n`
+          }
+          if (entry.promiseDetected) {
+            output += `    Completion promise detected\n`
+          }
+          for (const error of entry.errors) {
+            output += `    Error: ${error}\n`
+          }
+          if (entry.loopEnded) {
+            output += `    Loop ended: ${entry.loopEnded}\n`
+          }
+        }
+
+        return output.trimEnd()
       },
     }),
 
@@ -155,11 +482,12 @@ ${state.prompt}`
       args: {
         text: tool.schema.string().describe("The text to check for completion promise"),
       },
-      async execute(args) {
-        const state = await readState(directory)
+      async execute(args, toolCtx) {
+        const sessionId = (toolCtx as { sessionID?: string })?.sessionID || null
+        const state = await readState(directory, sessionId)
 
         if (!state || !state.active) {
-          return "No active Nelson loop."
+          return "No active Nelson loop in this session."
         }
 
         if (!state.completionPromise) {
@@ -169,7 +497,7 @@ ${state.prompt}`
         const promiseText = extractPromiseText(args.text)
 
         if (promiseText && promiseText === state.completionPromise) {
-          await removeState(directory)
+          await removeState(directory, sessionId)
           return `✅ Completion promise detected: <promise>${state.completionPromise}</promise>
 Nelson loop completed successfully after ${state.iteration} iterations.`
         }
@@ -1,6 +1,8 @@
+import * as path from "node:path"
+import { mkdir } from "node:fs/promises"
 import { tool } from "@opencode-ai/plugin"
-import type { NelsonState, PlanTask } from "./types"
-import { readState, writeState } from "./state"
+import type { NelsonState, PlanTask, TaskStatus } from "./types"
+import { NELSON_STATE_DIR, readState, writeState, findLoopForPlan } from "./state"
 import { slugify, detectProjectTools } from "./utils"
 import {
   DEFAULT_PLAN_DIR,
@@ -11,8 +13,65 @@ import {
   updateTaskStatus,
   resolvePlanFile,
   listPlanFiles,
+  validateDependencies,
+  getBlockingTasks,
+  findNextTaskIndex,
+  statusCheckbox,
+  isRunnableStatus,
+  setTaskStatus,
+  updateSubtaskStatus,
+  getPendingSubtasks,
+  findTaskIndex,
+  addTask,
+  removeTask,
+  moveTask,
+  renameTask,
+  describeTask,
+  planSlug,
+  planFormat,
+  worktreePathForPlan,
 } from "./plan"
 import { generateSingleTaskPrompt } from "./prompts"
+import {
+  getCurrentBranch,
+  checkoutBranch,
+  formatCommitMessage,
+  validateCommitSubject,
+  addWorktree,
+  listWorktrees,
+  snapshotDirtyPaths,
+  isGitRepo,
+  getRepoRoot,
+  readTaskCommits,
+  planWorkDir,
+} from "./git"
+import { startCheckpoints } from "./checkpoint"
+import { lintPlan, formatDiagnostics } from "./lint"
+import {
+  NELSON_TEMPLATE_DIR,
+  listPlanTemplates,
+  loadPlanTemplate,
+  fillPlanTemplate,
+} from "./templates"
+import { NELSON_REPORT_DIR, buildPlanReport, renderPlanReportHtml } from "./export"
+import { NELSON_JOURNAL_FILE, readJournal } from "./journal"
+import { readConfig, NELSON_CONFIG_FILE } from "./config"
+
+/**
+ * Symbols used when summarising task status in tool output
+ */
+const STATUS_SYMBOLS: Record<TaskStatus, string> = {
+  pending: "○",
+  in_progress: "◐",
+  completed: "✓",
+  skipped: "⤼",
+  blocked: "⛔",
+}
+
+/**
+ * nm-plan actions that edit a single task in an existing plan
+ */
+const TASK_EDIT_ACTIONS = ["add", "insert", "remove", "rename", "move", "describe"]
 
 /**
  * Create plan-related tools for Nelson Muntz
@@ -37,18 +96,160 @@ export function createPlanTools(directory: string) {
     return message
   }
 
+  /**
+   * Apply one of the nm-plan task edit actions to a plan file. A loop running the plan
+   * has its task numbers updated so it carries on with the same task.
+   */
+  async function editPlanTask(
+    planFile: string,
+    action: string,
+    args: { task?: string; title?: string; position?: number; taskDescription?: string },
+  ): Promise<string> {
+    const content = await readPlanFile(directory, planFile)
+    if (!content) {
+      return await formatPlanNotFoundError(planFile)
+    }
+    const plan = parsePlanFile(content)
+    const title = args.title?.trim()
+
+    if (action === "add" || action === "insert") {
+      if (!title) {
+        return `Error: '${action}' needs a title.`
+      }
+      if (action === "insert" && args.position === undefined) {
+        return `Error: 'insert' needs a position (the task number the new task should get).`
+      }
+      const at = Math.min(
+        Math.max(args.position ?? plan.tasks.length + 1, 1),
+        plan.tasks.length + 1,
+      )
+      const updated = addTask(content, plan.tasks, title, args.taskDescription, at)
+      await writePlanFile(directory, planFile, updated)
+      const loopNote = await renumberLoop(planFile, updated, (num) => (num >= at ? num + 1 : num))
+      return `➕ Added task ${at}: ${title}${loopNote}`
+    }
+
+    if (!args.task) {
+      return `Error: '${action}' needs a task number or ID.`
+    }
+    const index = findTaskIndex(plan.tasks, args.task)
+    const task = plan.tasks[index]
+    if (!task) {
+      return `Task "${args.task}" not found in ${planFile}.`
+    }
+    const taskNum = index + 1
+
+    if (action === "rename") {
+      if (!title) {
+        return `Error: 'rename' needs a title.`
+      }
+      await writePlanFile(directory, planFile, renameTask(content, task, title))
+      return `✏️ Renamed task ${taskNum}: ${task.title} → ${title}`
+    }
+
+    if (action === "describe") {
+      await writePlanFile(
+        directory,
+        planFile,
+        describeTask(content, task, args.taskDescription ?? ""),
+      )
+      return args.taskDescription?.trim()
+        ? `✏️ Updated the description of task ${taskNum}: ${task.title}`
+        : `✏️ Cleared the description of task ${taskNum}: ${task.title}`
+    }
+
+    if (action === "move") {
+      if (args.position === undefined) {
+        return `Error: 'move' needs a position (the task number the task should become).`
+      }
+      const to = Math.min(Math.max(args.position, 1), plan.tasks.length)
+      if (to === taskNum) {
+        return `Task ${taskNum} (${task.title}) is already at position ${to}.`
+      }
+      const updated = moveTask(content, plan.tasks, task, to)
+      await writePlanFile(directory, planFile, updated)
+      const loopNote = await renumberLoop(planFile, updated, (num) => {
+        if (num === taskNum) return to
+        if (taskNum < to && num > taskNum && num <= to) return num - 1
+        if (taskNum > to && num >= to && num < taskNum) return num + 1
+        return num
+      })
+      return `↕️ Moved task ${taskNum} to position ${to}: ${task.title}${loopNote}`
+    }
+
+    // remove
+    const dependents = plan.tasks.filter((t) => t.dependsOn?.includes(task.id))
+    if (dependents.length > 0) {
+      return `Task ${taskNum} (${task.title}) can't be removed - these tasks depend on it: ${dependents.map((t) => t.title).join(", ")}. Update their "depends:" lines first.`
+    }
+    const loop = await findLoopForPlan(directory, planFile, null)
+    if (loop?.currentTaskNum === taskNum) {
+      return `Task ${taskNum} (${task.title}) is the current task of a loop running this plan. Skip it with nm-skip or cancel the loop first.`
+    }
+    const updated = removeTask(content, plan.tasks, task)
+    await writePlanFile(directory, planFile, updated)
+    const loopNote = await renumberLoop(planFile, updated, (num) => (num > taskNum ? num - 1 : num))
+    return `➖ Removed task ${taskNum}: ${task.title}${loopNote}`
+  }
+
+  /**
+   * Point a loop running the plan at its tasks' new numbers after tasks were added,
+   * removed or moved
+   *
+   * @returns A note for the tool output, or "" if no loop is running the plan
+   */
+  async function renumberLoop(
+    planFile: string,
+    updatedContent: string,
+    renumber: (num: number) => number,
+  ): Promise<string> {
+    const loop = await findLoopForPlan(directory, planFile, null)
+    if (!loop) return ""
+
+    const tasks = parsePlanFile(updatedContent).tasks
+    if (loop.currentTaskNum) {
+      loop.currentTaskNum = renumber(loop.currentTaskNum)
+      loop.currentTaskId = tasks[loop.currentTaskNum - 1]?.id ?? loop.currentTaskId
+    }
+    if (loop.requeuedTaskNum) {
+      loop.requeuedTaskNum = renumber(loop.requeuedTaskNum)
+    }
+    await writeState(directory, loop.sessionId, loop)
+    return loop.currentTaskNum
+      ? `\n\nThe loop running this plan is still on task ${loop.currentTaskNum}.`
+      : ""
+  }
+
   return {
     "nm-plan": tool({
-      description: `Create or view a ${DEFAULT_PLAN_FILE} file for structured task management.
+      description: `Create, view or edit a ${DEFAULT_PLAN_FILE} file for structured task management.
 
 Usage:
 - 'create': Prepares a plan (returns target path - you generate and show the plan content to the user)
 - 'view': Shows the current plan and its tasks
 - 'save': Saves the provided content to the plan file
+- 'add': Adds a task with 'title' (and optional 'taskDescription') at the end, or at 'position'
+- 'insert': Same as 'add', but 'position' is required
+- 'remove': Removes 'task' and everything indented under it
+- 'rename': Gives 'task' a new 'title'
+- 'move': Moves 'task' so it becomes task number 'position'
+- 'describe': Replaces the description of 'task' with 'taskDescription'
+
+Edits only touch the lines of the affected tasks, so checkbox states, subtasks and notes
+are kept. Numeric "depends:" references follow tasks that move, tasks that change number
+keep their ID (an "id:" line is added), and edits can be made while a loop is running
+the plan (the loop keeps working on the same task).
 
 The plan file uses a simple markdown format with checkboxes for tasks.
 You can set a completion_promise in the file that Nelson will use.
 
+TEMPLATES:
+With template=<name>, 'create' returns that template as a starting draft and 'save'
+without content saves it as-is. Built-in templates: default, bugfix, feature, refactor,
+migration, test-coverage. Project templates are ${NELSON_TEMPLATE_DIR}/<name>.md and
+replace a built-in template of the same name. {name}, {description}, {slug} and {date}
+in a template are replaced with the plan's name, description, file slug and today's date.
+
 Filename generation (in priority order):
 1. Explicit 'file' parameter if provided
 2. Slugified 'name' parameter (e.g., "My API" → my-api.md)
@@ -56,6 +257,9 @@ Filename generation (in priority order):
 4. Falls back to "plan.md"
 
 Plans are stored in .opencode/plans/ by default, allowing multiple named plans.
+A name also finds an existing {slug}.json or {slug}.yaml plan. Those are shown and edited
+as markdown, and saved back in their own format (so 'save' to a .json or .yaml file
+takes markdown content too).
 
 WORKFLOW:
 1. User asks for a plan (e.g., "Create a plan for a REST API")
@@ -69,13 +273,20 @@ The plan should be markdown with:
 - # Title
 - ## Overview section with project context
 - ## Tasks section with checkbox items: - [ ] **Task title**
-- Optional: completion_promise: SOME_PHRASE (for auto-completion detection)`,
+- Optional YAML frontmatter (between --- lines at the very top) with plan settings:
+  completion_promise, max_iterations, commit (true/false), commit_prefix, verify, branch
+- Optional: completion_promise: SOME_PHRASE (for auto-completion detection)
+- Optional: verify: \`COMMAND\` (must pass before a task is marked complete; indent it
+  under a task to apply it to that task only)
+- Optional, indented under a task: nested checkboxes (  - [ ] Subtask) as a checklist
+- Optional, indented under a task: id: \`STABLE_ID\` and depends: \`1, STABLE_ID\` (the
+  loop only starts a task once its dependencies are complete)`,
       args: {
         action: tool.schema
           .string()
           .optional()
           .describe(
-            "Action: 'create' (prepare plan), 'view' (show existing), 'save' (write to disk)",
+            "Action: 'create' (prepare plan), 'view' (show existing), 'save' (write to disk), or edit a task: 'add', 'insert', 'remove', 'rename', 'move', 'describe'",
           ),
         name: tool.schema
           .string()
@@ -93,6 +304,25 @@ The plan should be markdown with:
           .string()
           .optional()
           .describe("Plan content to save (required when action='save')"),
+        task: tool.schema
+          .string()
+          .optional()
+          .describe("Task number (1, 2, 3...) or ID to edit (remove, rename, move, describe)"),
+        title: tool.schema.string().optional().describe("Task title (add, insert, rename)"),
+        position: tool.schema
+          .number()
+          .optional()
+          .describe("Task number the task should end up as (add, insert, move)"),
+        taskDescription: tool.schema
+          .string()
+          .optional()
+          .describe("Task description (add, insert, describe)"),
+        template: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Template to start from (create, save): default, bugfix, feature, refactor, migration, test-coverage, or a project template",
+          ),
       },
       async execute(args) {
         // Generate filename: file > name > description > "plan.md"
@@ -102,7 +332,7 @@ The plan should be markdown with:
         } else {
           const baseName = args.name || args.description
           const slug = baseName ? slugify(baseName) : "plan"
-          planFile = `${DEFAULT_PLAN_DIR}/${slug || "plan"}.md`
+          planFile = resolvePlanFile(slug || "plan", directory)
         }
 
         const action = args.action || "create"
@@ -116,6 +346,10 @@ The plan should be markdown with:
           const plan = parsePlanFile(content)
           let output = `📋 Plan: ${plan.title || planFile}\n\n`
 
+          if (plan.frontmatterError) {
+            output += `⚠️ Invalid frontmatter: ${plan.frontmatterError}\n\n`
+          }
+
           if (plan.overview) {
             output += `Overview: ${plan.overview.slice(0, 200)}${plan.overview.length > 200 ? "..." : ""}\n\n`
           }
@@ -123,7 +357,7 @@ The plan should be markdown with:
           output += `Tasks (${plan.tasks.filter((t) => t.status === "completed").length}/${plan.tasks.length} complete):\n`
           for (let i = 0; i < plan.tasks.length; i++) {
             const task = plan.tasks[i]
-            const status = task.status === "completed" ? "✓" : "○"
+            const status = STATUS_SYMBOLS[task.status]
             output += `  ${i + 1}. ${status} ${task.title}\n`
           }
 
@@ -131,12 +365,47 @@ The plan should be markdown with:
             output += `\nCompletion promise: ${plan.completionPromise}`
           }
 
+          if (plan.verifyCommand) {
+            output += `\nVerify command: ${plan.verifyCommand}`
+          }
+
+          const { maxIterations, commit, commitPrefix, commitTemplate, branch, createBranch } =
+            plan.settings
+          if (maxIterations !== undefined) output += `\nMax iterations: ${maxIterations}`
+          if (commit !== undefined) output += `\nCommit per task: ${commit ? "yes" : "no"}`
+          if (commitPrefix) output += `\nCommit prefix: ${commitPrefix}`
+          if (commitTemplate) output += `\nCommit template: ${commitTemplate}`
+          if (branch) output += `\nBranch: ${branch}`
+          if (createBranch) output += `\nCreate branch: yes`
+          if (plan.settings.worktree) output += `\nWorktree: yes`
+          if (plan.settings.squash) output += `\nSquash when complete: yes`
+
           return output
         }
 
+        if (TASK_EDIT_ACTIONS.includes(action)) {
+          return await editPlanTask(planFile, action, args)
+        }
+
+        // Fill in the chosen template, if any
+        let templateContent: string | null = null
+        if (args.template) {
+          const template = await loadPlanTemplate(directory, args.template)
+          if (template === null) {
+            const available = (await listPlanTemplates(directory)).map((t) => t.name).join(", ")
+            return `Error: Unknown template "${args.template}". Available templates: ${available}`
+          }
+          templateContent = fillPlanTemplate(template, {
+            name: args.name || args.description || "Project Plan",
+            description: args.description,
+            slug: planSlug(planFile),
+          })
+        }
+
         // Save action - write content to disk
         if (action === "save") {
-          if (!args.content || args.content.trim() === "") {
+          const content = args.content?.trim() ? args.content : templateContent
+          if (!content || content.trim() === "") {
             return `Error: No content provided. Use content parameter to specify the plan content to save.`
           }
 
@@ -145,7 +414,12 @@ The plan should be markdown with:
             return `Plan file already exists at ${planFile}. Delete it first to create a new one, or use a different filename.`
           }
 
-          await writePlanFile(directory, planFile, args.content)
+          const { frontmatterError } = parsePlanFile(content)
+          if (frontmatterError) {
+            return `Error: Plan not saved - invalid frontmatter: ${frontmatterError}`
+          }
+
+          await writePlanFile(directory, planFile, content)
 
           return `Saved plan to ${planFile}
 
@@ -161,13 +435,31 @@ You can now use:
           return `Plan file already exists at ${planFile}. Use nm-plan with action='view' to see it, or delete it first to create a new one.`
         }
 
+        if (templateContent) {
+          return `Ready to create plan from the "${args.template}" template.
+
+Target file: ${planFile}
+
+Adapt this draft to the user's request (keep its structure), then show it to them.
+When they approve (or after any revisions), save it with:
+  nm-plan action='save' file='${planFile}' content=<plan content>
+
+--- Draft ---
+
+${templateContent}`
+        }
+
+        const templates = await listPlanTemplates(directory)
         return `Ready to create plan.
 
 Target file: ${planFile}
 
 Generate a plan for the user based on their request, then show it to them.
 When they approve (or after any revisions), save it with:
-  nm-plan action='save' file='${planFile}' content=<plan content>`
+  nm-plan action='save' file='${planFile}' content=<plan content>
+
+To start from a template instead, call nm-plan action='create' again with template=<name>.
+Templates: ${templates.map((t) => (t.source === "project" ? `${t.name} (project)` : t.name)).join(", ")}`
       },
     }),
 
@@ -208,6 +500,115 @@ Use the plan name with the 'name' parameter in nm-tasks, nm-task, nm-start, etc.
       },
     }),
 
+    "nm-lint": tool({
+      description: `Check a plan file for problems before running it.
+
+Reports line-numbered errors and warnings with a suggested fix for each:
+- Errors (nm-start refuses to run): invalid frontmatter, no tasks, tasks outside the
+  ## Tasks section, dependency problems, a <promise> that doesn't match completion_promise
+- Warnings: no title or overview, duplicate task titles, pending tasks without a
+  description, a <promise> with no completion_promise set`,
+      args: {
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Plan name (e.g., 'rest-api' or 'My API') - resolves to .opencode/plans/{slug}.md",
+          ),
+        file: tool.schema
+          .string()
+          .optional()
+          .describe(`Plan file path (default: ${DEFAULT_PLAN_FILE})`),
+      },
+      async execute(args) {
+        // Resolve plan file: name takes precedence over file, then default
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
+        const content = await readPlanFile(directory, planFile)
+
+        if (!content) {
+          return await formatPlanNotFoundError(planFile)
+        }
+
+        const diagnostics = lintPlan(content, planFormat(planFile))
+        if (diagnostics.length === 0) {
+          return `✅ No problems found in ${planFile}`
+        }
+
+        const errors = diagnostics.filter((d) => d.severity === "error").length
+        const warnings = diagnostics.length - errors
+        return `🔎 ${planFile}: ${errors} error(s), ${warnings} warning(s)
+
+${formatDiagnostics(diagnostics)}${errors > 0 ? "\n\nnm-start won't run this plan until the errors are fixed." : ""}`
+      },
+    }),
+
+    "nm-export": tool({
+      description: `Export a plan's progress as a standalone HTML page or JSON document.
+
+The report has the plan title and overview, and every task with its status, description,
+subtasks and the commits made for it (from Nelson commit trailers and the run journal).
+The HTML page has no external assets, so it can be attached to a PR or shared as-is.
+
+Written to 'output' if given (a .json output defaults to JSON), otherwise to
+${NELSON_REPORT_DIR}/{plan}.html or .json.`,
+      args: {
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Plan name (e.g., 'rest-api' or 'My API') - resolves to .opencode/plans/{slug}.md",
+          ),
+        file: tool.schema
+          .string()
+          .optional()
+          .describe(`Plan file path (default: ${DEFAULT_PLAN_FILE})`),
+        format: tool.schema
+          .enum(["html", "json"])
+          .optional()
+          .describe("'html' (default) or 'json'"),
+        output: tool.schema
+          .string()
+          .optional()
+          .describe(`Where to write the report (default: ${NELSON_REPORT_DIR}/{plan}.{format})`),
+      },
+      async execute(args) {
+        // Resolve plan file: name takes precedence over file, then default
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
+        const content = await readPlanFile(directory, planFile)
+
+        if (!content) {
+          return await formatPlanNotFoundError(planFile)
+        }
+
+        const plan = parsePlanFile(content)
+        if (plan.frontmatterError) {
+          return `Invalid frontmatter in ${planFile}: ${plan.frontmatterError}`
+        }
+
+        const format = args.format ?? (args.output?.endsWith(".json") ? "json" : "html")
+        const output = args.output || `${NELSON_REPORT_DIR}/${planSlug(planFile)}.${format}`
+        const outputPath = path.isAbsolute(output) ? output : path.join(directory, output)
+
+        const report = buildPlanReport(
+          plan,
+          planFile,
+          await readTaskCommits(await planWorkDir(directory, planFile)),
+          await readJournal(directory, { planFile }),
+        )
+        await mkdir(path.dirname(outputPath), { recursive: true })
+        await Bun.write(
+          outputPath,
+          format === "json" ? JSON.stringify(report, null, 2) + "\n" : renderPlanReportHtml(report),
+        )
+
+        return `📤 Exported ${planFile} to ${output} (${report.progress.completed}/${report.progress.total} tasks complete)`
+      },
+    }),
+
     "nm-tasks": tool({
       description: `List all tasks from ${DEFAULT_PLAN_DIR}.
 
@@ -231,7 +632,9 @@ You can specify the plan by:
       },
       async execute(args) {
         // Resolve plan file: name takes precedence over file, then default
-        const planFile = args.name ? resolvePlanFile(args.name) : args.file || DEFAULT_PLAN_FILE
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
         const content = await readPlanFile(directory, planFile)
 
         if (!content) {
@@ -240,23 +643,41 @@ You can specify the plan by:
 
         const plan = parsePlanFile(content)
 
+        if (plan.frontmatterError) {
+          return `Invalid frontmatter in ${planFile}: ${plan.frontmatterError}`
+        }
+
         if (plan.tasks.length === 0) {
           return `No tasks found in ${planFile}. Add tasks using checkbox format:\n- [ ] Task description`
         }
 
+        const dependencyError = validateDependencies(plan.tasks)
+        if (dependencyError) {
+          return `Error in ${planFile}: ${dependencyError}`
+        }
+
         let output = `📋 Tasks from ${planFile}\n\n`
         output += `Progress: ${plan.tasks.filter((t) => t.status === "completed").length}/${plan.tasks.length} complete\n\n`
 
         for (let i = 0; i < plan.tasks.length; i++) {
           const task = plan.tasks[i]
-          const status = task.status === "completed" ? "[x]" : "[ ]"
+          const status = statusCheckbox(task.status)
           const num = String(i + 1).padStart(2, " ")
-          output += `${num}. ${status} ${task.title}\n`
+          const blockers = isRunnableStatus(task.status) ? getBlockingTasks(task, plan.tasks) : []
+          const blocked =
+            blockers.length > 0
+              ? `  ⛔ blocked by ${blockers.map((t) => plan.tasks.indexOf(t) + 1).join(", ")}`
+              : ""
+          output += `${num}. ${status} ${task.title}${blocked}\n`
+          task.subtasks?.forEach((sub, j) => {
+            output += `       ${j + 1}) ${sub.completed ? "[x]" : "[ ]"} ${sub.title}\n`
+          })
           if (task.description) {
             output += `       ${task.description.split("\n")[0].slice(0, 60)}${task.description.length > 60 ? "..." : ""}\n`
           }
         }
 
+        output += `\nLegend: [ ] pending  [~] in progress  [x] complete  [-] skipped  [!] blocked\n`
         output += `\nCommands:\n`
         output += `- nm-task 1      Execute task #1\n`
         output += `- nm-task "name" Execute task by name\n`
@@ -276,7 +697,7 @@ You can specify the plan by:
 - name: A plan name like "rest-api" or "My API" (resolves to .opencode/plans/{slug}.md)
 - file: An explicit file path like ".opencode/plans/custom.md"
 
-When the task completes, it will automatically be marked as done in the <plan>.md file.
+When the agent outputs <task-done>N</task-done>, the task is marked as done in the <plan>.md file.
 No git commit is created - you can review the changes and commit manually.`,
       args: {
         task: tool.schema.string().describe("Task number (1, 2, 3...) or task name/keyword"),
@@ -293,7 +714,9 @@ No git commit is created - you can review the changes and commit manually.`,
       },
       async execute(args, toolCtx) {
         // Resolve plan file: name takes precedence over file, then default
-        const planFile = args.name ? resolvePlanFile(args.name) : args.file || DEFAULT_PLAN_FILE
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
         const content = await readPlanFile(directory, planFile)
 
         if (!content) {
@@ -302,6 +725,10 @@ No git commit is created - you can review the changes and commit manually.`,
 
         const plan = parsePlanFile(content)
 
+        if (plan.frontmatterError) {
+          return `Invalid frontmatter in ${planFile}: ${plan.frontmatterError}`
+        }
+
         if (plan.tasks.length === 0) {
           return `No tasks found in ${planFile}.`
         }
@@ -331,15 +758,29 @@ No git commit is created - you can review the changes and commit manually.`,
           return `Task "${task.title}" is already marked as complete. To re-run it, uncheck it in ${planFile} first.`
         }
 
-        // Check for existing loop
-        const existingState = await readState(directory)
-        if (existingState?.active) {
-          return `A Nelson loop is already active (iteration ${existingState.iteration}). Use nm-cancel to stop it first.`
+        const blockers = getBlockingTasks(task, plan.tasks)
+        if (blockers.length > 0) {
+          const blockerList = blockers
+            .map((t) => `  ${plan.tasks.indexOf(t) + 1}. ${t.title}`)
+            .join("\n")
+          return `Task "${task.title}" is blocked by incomplete dependencies:\n${blockerList}\n\nComplete those tasks first.`
         }
 
         // Get session ID from tool context
         const sessionId = (toolCtx as { sessionID?: string })?.sessionID || null
 
+        // Check for an existing loop in this session, or another session working this plan
+        const existingState = await readState(directory, sessionId)
+        if (existingState) {
+          return `A Nelson loop is already ${existingState.active ? "active" : "paused"} in this session (iteration ${existingState.iteration}). Use nm-cancel to stop it first.`
+        }
+        const planLoop = await findLoopForPlan(directory, planFile, sessionId)
+        if (planLoop) {
+          return planLoop.active
+            ? `Plan ${planFile} is already being worked on by session ${planLoop.sessionId || "unbound"}. Use nm-status to see all loops.`
+            : `Plan ${planFile} has a paused loop. Use nm-resume to continue it or nm-cancel to discard it.`
+        }
+
         // Create state for single-task mode
         const state: NelsonState = {
           active: true,
@@ -354,7 +795,8 @@ No git commit is created - you can review the changes and commit manually.`,
           mode: "single-task",
           currentTaskNum: resolvedTaskNum,
         }
-        await writeState(directory, state)
+        await writeState(directory, sessionId, state)
+        await setTaskStatus(directory, planFile, resolvedTaskNum, "in_progress")
 
         // Detect project tools for the prompt
         const projectTools = await detectProjectTools(directory)
@@ -381,6 +823,19 @@ No git commit is created - you can review the changes and commit manually.`,
           toolsSection += toolsUsage.join("\n") + "\n"
         }
 
+        const verifyCommand = task.verifyCommand || plan.verifyCommand
+        const verifySection = verifyCommand
+          ? `\n## Verification\n\nThis task is only marked complete once \`${verifyCommand}\` passes. Run it yourself before finishing.\n`
+          : ""
+
+        const subtaskSection = task.subtasks?.length
+          ? `\n## Subtasks\n\n${task.subtasks.map((sub, i) => `${i + 1}. ${sub.completed ? "[x]" : "[ ]"} ${sub.title}`).join("\n")}\n\nCheck off each subtask as you finish it with nm-complete (file="${planFile}", task=${resolvedTaskNum}, subtask=<number>). This task is only marked complete once every subtask is checked.\n`
+          : ""
+
+        const acceptanceSection = task.acceptance?.length
+          ? `\n## Acceptance Criteria\n\n${task.acceptance.map((criterion, i) => `${i + 1}. ${criterion}`).join("\n")}\n\nBefore <task-done>, report on each criterion by number:\n<acceptance>\n1. met\n2. not met - <why>\n</acceptance>\nThis task is only marked complete once every criterion is reported as met.\n`
+          : ""
+
         // Generate a focused prompt for this single task
         const taskPrompt = `# Single Task Execution
 
@@ -391,12 +846,13 @@ ${toolsSection}
 **${task.title}**
 
 ${task.description || "No additional description provided."}
-
+${subtaskSection}${acceptanceSection}${verifySection}
 ## Instructions
 
 1. Complete the task described above
 2. When done, verify the work is correct
-3. The task will be automatically marked complete when you finish
+3. Output <task-done>${resolvedTaskNum}</task-done> - the task is ONLY marked complete when you do
+4. If you cannot finish it, output <task-blocked reason="...">${resolvedTaskNum}</task-blocked> instead
 
 ${plan.overview ? `\n## Project Context\n\n${plan.overview}` : ""}`
 
@@ -408,22 +864,28 @@ ${taskPrompt}
 
 ---
 
-Note: This is a ONE-TIME execution (no loop). The task will be automatically
-marked complete when finished. No git commit will be created - review and
+Note: This is a ONE-TIME execution (no loop). The task will be marked complete
+once <task-done>${resolvedTaskNum}</task-done> is output. No git commit will be created - review and
 commit your changes manually when ready.`
       },
     }),
 
     "nm-complete": tool({
-      description: `Mark a task as complete in the PLAN.md file.
+      description: `Mark a task (or one of its subtasks) as complete in the PLAN.md file.
 
-Use after successfully completing a task with nm-task.
+Use after successfully completing a task with nm-task, or pass 'subtask' to check
+off a nested subtask. A task with subtasks can only be completed once every
+subtask is checked.
 
 You can specify the plan by:
 - name: A plan name like "rest-api" or "My API" (resolves to .opencode/plans/{slug}.md)
 - file: An explicit file path like ".opencode/plans/custom.md"`,
       args: {
         task: tool.schema.string().describe("Task number (1, 2, 3...) or task name"),
+        subtask: tool.schema
+          .number()
+          .optional()
+          .describe("Subtask number within the task (1, 2, 3...) to check off"),
         name: tool.schema
           .string()
           .optional()
@@ -437,7 +899,9 @@ You can specify the plan by:
       },
       async execute(args) {
         // Resolve plan file: name takes precedence over file, then default
-        const planFile = args.name ? resolvePlanFile(args.name) : args.file || DEFAULT_PLAN_FILE
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
         const content = await readPlanFile(directory, planFile)
 
         if (!content) {
@@ -458,10 +922,36 @@ You can specify the plan by:
           return `Task "${args.task}" not found.`
         }
 
+        if (args.subtask !== undefined) {
+          const subtask = task.subtasks?.[args.subtask - 1]
+          if (!subtask) {
+            return `Task "${task.title}" has no subtask ${args.subtask}. It has ${task.subtasks?.length ?? 0} subtask(s).`
+          }
+          if (subtask.completed) {
+            return `Subtask "${subtask.title}" is already complete.`
+          }
+
+          await writePlanFile(directory, planFile, updateSubtaskStatus(content, subtask, true))
+
+          const remaining = getPendingSubtasks(task).length - 1
+          return remaining > 0
+            ? `✓ Marked subtask complete: ${subtask.title}\n\n${remaining} subtask(s) of "${task.title}" remaining`
+            : `✓ Marked subtask complete: ${subtask.title}\n\nAll subtasks of "${task.title}" are done.`
+        }
+
         if (task.status === "completed") {
           return `Task "${task.title}" is already complete.`
         }
 
+        const pendingSubtasks = getPendingSubtasks(task)
+        if (pendingSubtasks.length > 0) {
+          const list = (task.subtasks ?? [])
+            .map((sub, i) => (sub.completed ? null : `  ${i + 1}) ${sub.title}`))
+            .filter(Boolean)
+            .join("\n")
+          return `Task "${task.title}" still has unchecked subtasks:\n${list}\n\nComplete them first with nm-complete and the 'subtask' parameter.`
+        }
+
         // Update the plan file
         const updatedContent = updateTaskStatus(content, task.id, plan.tasks, "completed")
         await writePlanFile(directory, planFile, updatedContent)
@@ -479,6 +969,78 @@ You can specify the plan by:
       },
     }),
 
+    "nm-skip": tool({
+      description: `Mark a task as skipped ([-]) or blocked ([!]) in the PLAN.md file.
+
+Skipped and blocked tasks are passed over by the loop. If the task is the one an
+active loop is working on, the loop moves on when the session next goes idle.
+Use 'status: pending' to put a skipped or blocked task back in the queue.
+
+You can specify the plan by:
+- name: A plan name like "rest-api" or "My API" (resolves to .opencode/plans/{slug}.md)
+- file: An explicit file path like ".opencode/plans/custom.md"`,
+      args: {
+        task: tool.schema.string().describe("Task number (1, 2, 3...) or task name"),
+        status: tool.schema
+          .string()
+          .optional()
+          .describe("'skipped' (default), 'blocked', or 'pending' to re-queue the task"),
+        name: tool.schema
+          .string()
+          .optional()
+          .describe(
+            "Plan name (e.g., 'rest-api' or 'My API') - resolves to .opencode/plans/{slug}.md",
+          ),
+        file: tool.schema
+          .string()
+          .optional()
+          .describe(`Plan file path (default: ${DEFAULT_PLAN_FILE})`),
+      },
+      async execute(args) {
+        const newStatus = (args.status || "skipped") as TaskStatus
+        if (newStatus !== "skipped" && newStatus !== "blocked" && newStatus !== "pending") {
+          return `Error: Invalid status "${args.status}". Use 'skipped', 'blocked' or 'pending'.`
+        }
+
+        // Resolve plan file: name takes precedence over file, then default
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
+        const content = await readPlanFile(directory, planFile)
+
+        if (!content) {
+          return await formatPlanNotFoundError(planFile)
+        }
+
+        const plan = parsePlanFile(content)
+        const taskNum = parseInt(args.task, 10)
+        let task: PlanTask | undefined
+
+        if (!isNaN(taskNum) && taskNum >= 1 && taskNum <= plan.tasks.length) {
+          task = plan.tasks[taskNum - 1]
+        } else {
+          task = plan.tasks.find((t) => t.title.toLowerCase().includes(args.task.toLowerCase()))
+        }
+
+        if (!task) {
+          return `Task "${args.task}" not found.`
+        }
+
+        if (task.status === "completed") {
+          return `Task "${task.title}" is already complete. Uncheck it in ${planFile} first.`
+        }
+
+        if (task.status === newStatus) {
+          return `Task "${task.title}" is already ${newStatus}.`
+        }
+
+        const updatedContent = updateTaskStatus(content, task.id, plan.tasks, newStatus)
+        await writePlanFile(directory, planFile, updatedContent)
+
+        return `${statusCheckbox(newStatus)} Marked ${newStatus}: ${task.title}`
+      },
+    }),
+
     "nm-start": tool({
       description: `Start a Nelson loop using tasks from a PLAN.md file.
 
@@ -495,7 +1057,19 @@ The loop will:
 3. After each task: mark it complete AND create a git commit
 4. Continue until all tasks are complete (if completion_promise is set)
 
-Each task gets its own git commit, so you can review them separately later.`,
+Each task gets its own git commit, so you can review them separately later.
+
+Settings come from the plan's YAML frontmatter (completion_promise, max_iterations,
+commit, commit_prefix, commit_template, commit_max_length, max_commit_attempts, verify,
+branch, create_branch, worktree, squash). Any argument passed here overrides the plan.
+With createBranch, the loop runs on a dedicated branch (nelson/<plan-slug> unless a branch
+is given), which is created from the current HEAD if it doesn't exist. With worktree, that
+branch is checked out in a separate git worktree next to the project and all work and
+commits happen there - use nm-worktree to merge or discard it afterwards. Branches listed
+under protectedBranches in ${NELSON_CONFIG_FILE} are never committed to.
+
+If there are uncommitted changes the loop refuses to start, unless allowDirty is set - then
+they are snapshotted and each task commit only includes paths that changed since.`,
       args: {
         name: tool.schema
           .string()
@@ -510,12 +1084,55 @@ Each task gets its own git commit, so you can review them separately later.`,
         maxIterations: tool.schema
           .number()
           .optional()
-          .describe("Maximum iterations (default: 0 = unlimited)"),
+          .describe("Maximum iterations (default: plan's max_iterations, else 0 = unlimited)"),
+        completionPromise: tool.schema
+          .string()
+          .optional()
+          .describe("Promise phrase that ends the loop (overrides the plan's completion_promise)"),
+        commit: tool.schema
+          .boolean()
+          .optional()
+          .describe("Create a git commit per task (default: plan's commit setting, else true)"),
+        commitPrefix: tool.schema
+          .string()
+          .optional()
+          .describe("Commit subject prefix (default: plan's commit_prefix, else 'feat(nelson)')"),
+        verify: tool.schema
+          .string()
+          .optional()
+          .describe("Command that must pass before a task is marked complete (overrides the plan)"),
+        branch: tool.schema
+          .string()
+          .optional()
+          .describe("Branch the loop must run on (overrides the plan's branch setting)"),
+        createBranch: tool.schema
+          .boolean()
+          .optional()
+          .describe(
+            "Switch to the branch (default: nelson/<plan-slug>) before starting, creating it if needed",
+          ),
+        worktree: tool.schema
+          .boolean()
+          .optional()
+          .describe(
+            "Run in a separate git worktree on the branch (default: nelson/<plan-slug>) so this checkout is left alone",
+          ),
+        squash: tool.schema
+          .boolean()
+          .optional()
+          .describe("Squash the task commits into one when all tasks are complete (see nm-finish)"),
+        allowDirty: tool.schema
+          .boolean()
+          .optional()
+          .describe(
+            "Start even with uncommitted changes; they are left out of task commits (default: refuse)",
+          ),
       },
       async execute(args, toolCtx) {
         // Resolve plan file: name takes precedence over file, then default
-        const planFile = args.name ? resolvePlanFile(args.name) : args.file || DEFAULT_PLAN_FILE
-        const maxIterations = args.maxIterations ?? 0
+        const planFile = args.name
+          ? resolvePlanFile(args.name, directory)
+          : args.file || DEFAULT_PLAN_FILE
         const content = await readPlanFile(directory, planFile)
 
         if (!content) {
@@ -524,37 +1141,162 @@ Each task gets its own git commit, so you can review them separately later.`,
 
         const plan = parsePlanFile(content)
 
+        if (plan.frontmatterError) {
+          return `Cannot start loop - invalid frontmatter in ${planFile}: ${plan.frontmatterError}`
+        }
+
+        // Tool arguments override the plan's frontmatter settings
+        const maxIterations = args.maxIterations ?? plan.settings.maxIterations ?? 0
+        const completionPromise = args.completionPromise || plan.completionPromise || null
+        const shouldCommit = args.commit ?? plan.settings.commit ?? true
+        const commitPrefix = args.commitPrefix || plan.settings.commitPrefix || null
+        const branch = args.branch || plan.settings.branch || null
+        const createBranch = args.createBranch ?? plan.settings.createBranch ?? false
+        const useWorktree = args.worktree ?? plan.settings.worktree ?? false
+        const allowDirty = args.allowDirty ?? false
+        const squash = args.squash ?? plan.settings.squash ?? false
+        if (args.verify) {
+          plan.verifyCommand = args.verify
+        }
+
         if (plan.tasks.length === 0) {
           return `No tasks found in ${planFile}. Add tasks using checkbox format:\n- [ ] Task description`
         }
 
-        const pendingTasks = plan.tasks.filter((t) => t.status !== "completed")
+        const pendingTasks = plan.tasks.filter((t) => isRunnableStatus(t.status))
         if (pendingTasks.length === 0) {
-          return `All tasks in ${planFile} are already complete!`
+          return plan.tasks.every((t) => t.status === "completed")
+            ? `All tasks in ${planFile} are already complete!`
+            : `No runnable tasks in ${planFile} - every remaining task is skipped or blocked.`
         }
 
-        // Check for existing loop
-        const existingState = await readState(directory)
-        if (existingState?.active) {
-          return `A Nelson loop is already active (iteration ${existingState.iteration}). Use nm-cancel to stop it first.`
+        const dependencyError = validateDependencies(plan.tasks)
+        if (dependencyError) {
+          return `Cannot start loop - error in ${planFile}: ${dependencyError}`
+        }
+
+        const diagnostics = lintPlan(content, planFormat(planFile))
+        const lintErrors = diagnostics.filter((d) => d.severity === "error")
+        if (lintErrors.length > 0) {
+          return `Cannot start loop - ${planFile} has problems:\n${formatDiagnostics(lintErrors)}\n\nFix them and try again (nm-lint shows warnings too).`
+        }
+        const lintWarnings = diagnostics.filter((d) => d.severity === "warning")
+
+        // Every commit subject the loop will create must fit the configured length
+        const config = await readConfig(directory)
+        if (shouldCommit) {
+          const subjectErrors = plan.tasks
+            .map((task, i) => {
+              if (!isRunnableStatus(task.status)) return null
+              const message = formatCommitMessage(task, i + 1, {
+                template: plan.settings.commitTemplate || config.commitTemplate,
+                prefix: commitPrefix,
+                planName: planSlug(planFile),
+              })
+              const error = validateCommitSubject(
+                message.subject,
+                plan.settings.commitMaxLength ?? config.commitMaxLength,
+              )
+              return error ? `  Task ${i + 1}: ${error}` : null
+            })
+            .filter(Boolean)
+          if (subjectErrors.length > 0) {
+            return `Cannot start loop - commit subjects too long:\n${subjectErrors.join("\n")}\n\nShorten the task titles or adjust the commit template.`
+          }
+        }
+
+        // Check for an existing loop in this session, or another session working this plan
+        const sessionId = (toolCtx as { sessionID?: string })?.sessionID || null
+        const existingState = await readState(directory, sessionId)
+        if (existingState) {
+          return `A Nelson loop is already ${existingState.active ? "active" : "paused"} in this session (iteration ${existingState.iteration}). Use nm-cancel to stop it first.`
+        }
+        const planLoop = await findLoopForPlan(directory, planFile, sessionId)
+        if (planLoop) {
+          return planLoop.active
+            ? `Plan ${planFile} is already being worked on by session ${planLoop.sessionId || "unbound"}. Use nm-status to see all loops.`
+            : `Plan ${planFile} has a paused loop. Use nm-resume to continue it or nm-cancel to discard it.`
         }
 
-        // Find the first pending task
-        const firstPendingIdx = plan.tasks.findIndex((t) => t.status !== "completed")
+        // Find the first pending task whose dependencies are complete
+        const firstPendingIdx = findNextTaskIndex(plan.tasks)
+        if (firstPendingIdx === -1) {
+          return `No runnable tasks in ${planFile} - every pending task depends on a skipped or blocked task.`
+        }
         const firstTask = plan.tasks[firstPendingIdx]
         const firstTaskNum = firstPendingIdx + 1
 
+        // Uncommitted changes that are already there must not end up in task commits
+        const existingWorktree = worktreePathForPlan(directory, planFile)
+        const checkDir = !useWorktree
+          ? directory
+          : (await listWorktrees(directory)).includes(existingWorktree)
+            ? existingWorktree
+            : null
+        const checkRoot = checkDir ? await getRepoRoot(checkDir) : null
+        const ownFiles = [planFile, NELSON_STATE_DIR, NELSON_JOURNAL_FILE].map((file) =>
+          checkRoot && checkDir ? path.relative(checkRoot, path.resolve(checkDir, file)) : file,
+        )
+        const dirtyPaths =
+          shouldCommit && checkDir
+            ? Object.keys(await snapshotDirtyPaths(checkDir)).filter(
+                // Nelson's own files change during the loop anyway
+                (file) => !ownFiles.some((own) => file === own || file.startsWith(`${own}/`)),
+              )
+            : []
+        if (dirtyPaths.length > 0 && !allowDirty) {
+          return `Cannot start loop - ${checkDir} has uncommitted changes that could end up in task commits:\n${dirtyPaths.map((p) => `  ${p}`).join("\n")}\n\nCommit or stash them first, or pass allowDirty=true to leave them out of every task commit.`
+        }
+
+        // Work out which branch the loop commits to, switching to a dedicated one (or
+        // checking it out in a separate worktree) if asked
+        const protectedBranches = config.protectedBranches ?? []
+        let runBranch = await getCurrentBranch(directory)
+        let branchMessage: string | null = null
+        let worktreePath: string | null = null
+        if (createBranch || useWorktree) {
+          const target = branch || `nelson/${planSlug(planFile)}`
+          if (protectedBranches.includes(target)) {
+            return `Cannot start loop - branch "${target}" is protected in ${NELSON_CONFIG_FILE}. Pick another branch name.`
+          }
+          if (useWorktree) {
+            const targetPath = worktreePathForPlan(directory, planFile)
+            const added = await addWorktree(directory, targetPath, target, planFile)
+            if (!added.success) {
+              return `Cannot start loop - ${added.message}`
+            }
+            worktreePath = targetPath
+            branchMessage = added.message
+            runBranch = await getCurrentBranch(targetPath)
+          } else {
+            if (target !== runBranch) {
+              const checkout = await checkoutBranch(directory, target)
+              if (!checkout.success) {
+                return `Cannot start loop - ${checkout.message}`
+              }
+              branchMessage = checkout.message
+            }
+            runBranch = target
+          }
+        } else if (branch && runBranch !== branch) {
+          return `This plan must run on branch "${branch}", but ${runBranch ? `"${runBranch}" is checked out` : "no branch is checked out"}. Switch with \`git checkout ${branch}\`, or pass createBranch=true, and try again.`
+        }
+        if (shouldCommit && runBranch && protectedBranches.includes(runBranch)) {
+          return `Cannot start loop - "${runBranch}" is a protected branch (see ${NELSON_CONFIG_FILE}). Pass createBranch=true to work on a dedicated branch, or commit=false.`
+        }
+
         // Detect project tools and build a prompt focused on the current task
-        const projectTools = await detectProjectTools(directory)
+        const projectTools = await detectProjectTools(worktreePath || directory)
         const taskPrompt = generateSingleTaskPrompt(
           plan,
           firstTask,
           firstTaskNum,
           true,
           projectTools,
+          null,
+          worktreePath,
+          planFile,
         )
-        const completionPromise = plan.completionPromise || null
-        const sessionId = (toolCtx as { sessionID?: string })?.sessionID || null
 
         // Create state with loop mode
         const state: NelsonState = {
@@ -569,15 +1311,31 @@ Each task gets its own git commit, so you can review them separately later.`,
           currentTaskId: firstTask.id,
           mode: "loop",
           currentTaskNum: firstTaskNum,
+          commit: shouldCommit,
+          commitPrefix,
+          verifyCommand: args.verify || null,
+          branch: runBranch,
+          worktree: worktreePath,
+          squash,
+          maxCommitAttempts: plan.settings.maxCommitAttempts,
+          dirtySnapshot:
+            dirtyPaths.length > 0 ? await snapshotDirtyPaths(worktreePath || directory) : null,
+        }
+        await writeState(directory, sessionId, state)
+        await setTaskStatus(directory, planFile, firstTaskNum, "in_progress")
+
+        // Outside git, tasks are saved as file checkpoints measured from this baseline
+        const useCheckpoints = shouldCommit && !(await isGitRepo(directory))
+        if (useCheckpoints) {
+          await startCheckpoints(directory, planFile)
         }
-        await writeState(directory, state)
 
         let output = `🔄 Nelson loop started from ${planFile}!
 
 Plan: ${plan.title || "Untitled"}
-Tasks: ${pendingTasks.length} pending, ${plan.tasks.length - pendingTasks.length} complete
+Tasks: ${pendingTasks.length} pending, ${plan.tasks.filter((t) => t.status === "completed").length} complete
 Max iterations: ${maxIterations > 0 ? maxIterations : "unlimited"}
-Mode: Loop with auto-commit per task
+Mode: ${useCheckpoints ? "Loop with a file checkpoint per task (not a git repository)" : shouldCommit ? "Loop with auto-commit per task" : "Loop without commits"}${runBranch ? `\nBranch: ${runBranch}` : ""}${branchMessage ? `\n${branchMessage}` : ""}${dirtyPaths.length > 0 ? `\n⚠️ ${dirtyPaths.length} pre-existing uncommitted change(s) will be left out of task commits unless a task changes them` : ""}${lintWarnings.length > 0 ? `\n\n⚠️ Plan warnings (see nm-lint):\n${formatDiagnostics(lintWarnings)}` : ""}
 
 Starting with task ${firstTaskNum}: ${firstTask.title}
 
@@ -0,0 +1,600 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import * as path from "node:path"
+import * as os from "node:os"
+import * as fs from "node:fs/promises"
+import type { StructuredPlan, StructuredPlanTask } from "./types"
+import {
+  parsePlanFile,
+  updateTaskStatus,
+  validateDependencies,
+  getBlockingTasks,
+  findNextTaskIndex,
+  getPendingSubtasks,
+  updateSubtaskStatus,
+  setTaskSummary,
+  findTaskIndex,
+  addTask,
+  removeTask,
+  moveTask,
+  renameTask,
+  describeTask,
+  readPlanFile,
+  writePlanFile,
+  resolvePlanFile,
+  listPlanFiles,
+} from "./plan"
+
+describe("parsePlanFile verify commands", () => {
+  test("reads a plan-level verify command", () => {
+    const plan = parsePlanFile(`# Plan
+
+verify: \`bun test\`
+
+## Tasks
+
+- [ ] **First task**
+`)
+    expect(plan.verifyCommand).toBe("bun test")
+    expect(plan.tasks[0].verifyCommand).toBeUndefined()
+  })
+
+  test("reads a verify command from an HTML comment", () => {
+    const plan = parsePlanFile(`# Plan\n<!-- verify: just test -->\n\n## Tasks\n\n- [ ] Task`)
+    expect(plan.verifyCommand).toBe("just test")
+  })
+
+  test("reads a task-level verify command without adding it to the description", () => {
+    const plan = parsePlanFile(`# Plan
+
+## Tasks
+
+- [ ] **First task**
+  Do the thing.
+  verify: \`bun test src/thing.test.ts\`
+
+- [ ] **Second task**
+`)
+    expect(plan.verifyCommand).toBeNull()
+    expect(plan.tasks[0].verifyCommand).toBe("bun test src/thing.test.ts")
+    expect(plan.tasks[0].description).toBe("Do the thing.")
+    expect(plan.tasks[1].verifyCommand).toBeUndefined()
+  })
+
+  test("leaves prose that starts with verify as description", () => {
+    const plan = parsePlanFile(`# Plan
+
+## Overview
+
+Verify: the API returns JSON
+
+## Tasks
+
+- [ ] **First task**
+  Verify: the endpoint returns 200
+  verify: it still builds
+  type: string
+`)
+    expect(plan.verifyCommand).toBeNull()
+    expect(plan.overview).toBe("Verify: the API returns JSON")
+    expect(plan.tasks[0].verifyCommand).toBeUndefined()
+    expect(plan.tasks[0].commitType).toBeUndefined()
+    expect(plan.tasks[0].description).toBe(
+      "Verify: the endpoint returns 200\nverify: it still builds\ntype: string",
+    )
+  })
+})
+
+describe("task dependencies", () => {
+  const plan = (tasks: string) => parsePlanFile(`# Plan\n\n## Tasks\n\n${tasks}`)
+
+  test("resolves dependencies by number and stable ID", () => {
+    const { tasks } = plan(`- [ ] **Schema**
+  id: \`schema\`
+- [ ] **API**
+  depends: \`schema\`
+- [ ] **Docs**
+  <!-- depends: 1, #2 -->
+`)
+    expect(tasks[0].id).toBe("schema")
+    expect(tasks[1].dependsOn).toEqual(["schema"])
+    expect(tasks[2].dependsOn).toEqual(["schema", "task-2"])
+    expect(tasks[2].description).toBe("")
+    expect(validateDependencies(tasks)).toBeNull()
+  })
+
+  test("reads ID and dependency prose as description", () => {
+    const { tasks } = plan(`- [ ] **Deploy**
+  Depends on: the staging cluster being up.
+  ID: not-a-real-id
+`)
+    expect(tasks[0].id).toBe("task-1")
+    expect(tasks[0].dependsOn).toBeUndefined()
+    expect(tasks[0].description).toBe(
+      "Depends on: the staging cluster being up.\nID: not-a-real-id",
+    )
+  })
+
+  test("picks the first task whose dependencies are complete", () => {
+    const { tasks } = plan(`- [ ] **Second**
+  depends: \`2\`
+- [ ] **First**
+`)
+    expect(findNextTaskIndex(tasks)).toBe(1)
+    expect(getBlockingTasks(tasks[0], tasks).map((t) => t.title)).toEqual(["First"])
+  })
+
+  test("treats completed dependencies as satisfied", () => {
+    const { tasks } = plan(`- [x] **First**
+- [ ] **Second**
+  depends: \`1\`
+`)
+    expect(findNextTaskIndex(tasks)).toBe(1)
+  })
+
+  test("reports cycles", () => {
+    const { tasks } = plan(`- [ ] **A**
+  depends: \`2\`
+- [ ] **B**
+  depends: \`1\`
+`)
+    expect(validateDependencies(tasks)).toContain(
+      "Dependency cycle detected: 1 (task-1) → 2 (task-2) → 1 (task-1)",
+    )
+    expect(findNextTaskIndex(tasks)).toBe(-1)
+  })
+
+  test("reports unknown dependencies", () => {
+    const { tasks } = plan(`- [ ] **A**
+  depends: \`nope\`
+`)
+    expect(validateDependencies(tasks)).toContain('depends on unknown task "nope"')
+  })
+})
+
+describe("task status markers", () => {
+  const content = `# Plan
+
+## Tasks
+
+- [ ] **Pending**
+- [~] **Running**
+- [x] **Done**
+- [-] **Skipped**
+- [!] **Blocked**
+`
+
+  test("parses every status marker", () => {
+    const { tasks } = parsePlanFile(content)
+    expect(tasks.map((t) => t.status)).toEqual([
+      "pending",
+      "in_progress",
+      "completed",
+      "skipped",
+      "blocked",
+    ])
+  })
+
+  test("writes statuses back to the checkbox", () => {
+    const { tasks } = parsePlanFile(content)
+    let updated = updateTaskStatus(content, "task-1", tasks, "skipped")
+    updated = updateTaskStatus(updated, "task-2", tasks, "completed")
+    updated = updateTaskStatus(updated, "task-5", tasks, "pending")
+    expect(updated).toContain("- [-] **Pending**")
+    expect(updated).toContain("- [x] **Running**")
+    expect(updated).toContain("- [ ] **Blocked**")
+  })
+
+  test("never picks skipped or blocked tasks", () => {
+    const { tasks } = parsePlanFile(`- [-] **A**\n- [!] **B**\n- [~] **C**`)
+    expect(findNextTaskIndex(tasks)).toBe(2)
+  })
+})
+
+describe("plan frontmatter", () => {
+  test("parses settings from YAML frontmatter", () => {
+    const plan = parsePlanFile(`---
+completion_promise: ALL_DONE
+max_iterations: 10
+commit: false
+commit_prefix: "chore(agent)"
+verify: bun test
+branch: feature/api
+create_branch: true
+---
+# My Plan
+
+## Tasks
+
+- [ ] **First task**
+`)
+    expect(plan.frontmatterError).toBeNull()
+    expect(plan.title).toBe("My Plan")
+    expect(plan.completionPromise).toBe("ALL_DONE")
+    expect(plan.verifyCommand).toBe("bun test")
+    expect(plan.settings).toEqual({
+      completionPromise: "ALL_DONE",
+      maxIterations: 10,
+      commit: false,
+      commitPrefix: "chore(agent)",
+      verify: "bun test",
+      branch: "feature/api",
+      createBranch: true,
+    })
+    expect(plan.tasks[0].lineNumber).toBe(14)
+  })
+
+  test("frontmatter overrides inline settings", () => {
+    const plan = parsePlanFile(
+      `---\ncompletion_promise: FROM_YAML\n---\ncompletion_promise: INLINE\n`,
+    )
+    expect(plan.completionPromise).toBe("FROM_YAML")
+  })
+
+  test("reads an inline completion promise from an HTML comment", () => {
+    const plan = parsePlanFile(`<!-- completion_promise: ALL_TASKS_COMPLETE -->\n`)
+    expect(plan.completionPromise).toBe("ALL_TASKS_COMPLETE")
+  })
+
+  test("plans without frontmatter have empty settings", () => {
+    const plan = parsePlanFile(`# Plan\n\n- [ ] Task`)
+    expect(plan.settings).toEqual({})
+    expect(plan.frontmatterError).toBeNull()
+  })
+
+  test("reports unknown settings", () => {
+    const plan = parsePlanFile(`---\nmax_iteration: 3\n---\n# Plan`)
+    expect(plan.frontmatterError).toContain('Unknown frontmatter setting "max_iteration"')
+    expect(plan.settings).toEqual({})
+  })
+
+  test("reports values of the wrong type", () => {
+    const plan = parsePlanFile(`---\ncommit: sometimes\n---\n# Plan`)
+    expect(plan.frontmatterError).toContain('"commit" must be a boolean')
+  })
+
+  test("reports unclosed frontmatter", () => {
+    const plan = parsePlanFile(`---\ncommit: false\n# Plan`)
+    expect(plan.frontmatterError).toContain("never closed")
+  })
+
+  test("reports invalid YAML", () => {
+    const plan = parsePlanFile(`---\nverify: [unclosed\n---\n# Plan`)
+    expect(plan.frontmatterError).toContain("Invalid YAML")
+  })
+})
+
+describe("subtasks", () => {
+  const content = `# Plan
+
+## Tasks
+
+- [ ] **Build the API**
+  Set up the endpoints.
+  - [x] GET /todos
+  - [ ] **POST /todos**
+  * [ ] DELETE /todos/:id
+
+- [ ] **Write docs**
+`
+
+  test("parses nested checkboxes as subtasks, not description", () => {
+    const { tasks } = parsePlanFile(content)
+    expect(tasks).toHaveLength(2)
+    expect(tasks[0].description).toBe("Set up the endpoints.")
+    expect(tasks[0].subtasks).toEqual([
+      { title: "GET /todos", completed: true, lineNumber: 7 },
+      { title: "POST /todos", completed: false, lineNumber: 8 },
+      { title: "DELETE /todos/:id", completed: false, lineNumber: 9 },
+    ])
+    expect(tasks[1].subtasks).toBeUndefined()
+  })
+
+  test("lists pending subtasks and checks them off", () => {
+    const { tasks } = parsePlanFile(content)
+    expect(getPendingSubtasks(tasks[0]).map((sub) => sub.title)).toEqual([
+      "POST /todos",
+      "DELETE /todos/:id",
+    ])
+
+    const updated = updateSubtaskStatus(content, tasks[0].subtasks![1], true)
+    expect(updated).toContain("  - [x] **POST /todos**")
+    expect(getPendingSubtasks(parsePlanFile(updated).tasks[0])).toHaveLength(1)
+  })
+})
+
+describe("acceptance criteria", () => {
+  const content = `# Plan
+
+## Tasks
+
+- [ ] **Build the API**
+  Set up the endpoints.
+  Acceptance:
+  - GET /todos returns 200
+  - Invalid input returns 400
+  - [ ] POST /todos
+
+- [ ] **Write docs**
+  - Not a criterion
+`
+
+  test("parses plain bullets under Acceptance: as criteria", () => {
+    const { tasks } = parsePlanFile(content)
+    expect(tasks[0].description).toBe("Set up the endpoints.")
+    expect(tasks[0].acceptance).toEqual(["GET /todos returns 200", "Invalid input returns 400"])
+    expect(tasks[0].subtasks).toHaveLength(1)
+    expect(tasks[1].acceptance).toBeUndefined()
+  })
+
+  test("keeps the criteria when the description is replaced", () => {
+    const { tasks } = parsePlanFile(content)
+    const described = parsePlanFile(describeTask(content, tasks[0], "Add CRUD endpoints."))
+    expect(described.tasks[0].description).toBe("Add CRUD endpoints.")
+    expect(described.tasks[0].acceptance).toHaveLength(2)
+  })
+})
+
+describe("change summaries", () => {
+  const content = `# Plan
+
+## Tasks
+
+- [x] **First task**
+  Do the first thing
+  - [x] Step one
+
+- [ ] **Second task**
+`
+
+  test("adds a summary under the task and skips it when parsing", () => {
+    const plan = parsePlanFile(content)
+    const updated = setTaskSummary(content, plan.tasks[0], ['> Commit "task 1": 1 file(s) changed'])
+    expect(updated).toContain(
+      '  - [x] Step one\n  <!-- nelson:summary -->\n  > Commit "task 1": 1 file(s) changed\n  <!-- /nelson:summary -->\n\n- [ ] **Second task**',
+    )
+
+    const reparsed = parsePlanFile(updated)
+    expect(reparsed.tasks[0].description).toBe("Do the first thing")
+    expect(reparsed.tasks[0].subtasks).toHaveLength(1)
+    expect(reparsed.tasks[1].title).toBe("Second task")
+  })
+
+  test("replaces or removes an existing summary", () => {
+    const withSummary = setTaskSummary(content, parsePlanFile(content).tasks[0], ["> old"])
+    const task = parsePlanFile(withSummary).tasks[0]
+    const replaced = setTaskSummary(withSummary, task, ["> new"])
+    expect(replaced).toContain("> new")
+    expect(replaced).not.toContain("> old")
+    expect(setTaskSummary(withSummary, task, null)).toBe(content)
+  })
+})
+
+describe("task editing", () => {
+  const content = `# Plan
+
+## Tasks
+
+- [x] **Set up the project**
+  Create the folders
+  - [x] Add package.json
+
+- [ ] **Write the parser**
+  id: \`parser\`
+  depends: \`1\`
+
+- [ ] **Add tests**
+  depends: \`2, parser\`
+`
+
+  test("finds tasks by number or ID", () => {
+    const { tasks } = parsePlanFile(content)
+    expect(findTaskIndex(tasks, "2")).toBe(1)
+    expect(findTaskIndex(tasks, "parser")).toBe(1)
+    expect(findTaskIndex(tasks, "4")).toBe(-1)
+    expect(findTaskIndex(tasks, "missing")).toBe(-1)
+  })
+
+  test("adds and inserts tasks, renumbering dependencies", () => {
+    const { tasks } = parsePlanFile(content)
+    const appended = parsePlanFile(addTask(content, tasks, "Write docs", "Update the README"))
+    expect(appended.tasks[3]).toMatchObject({
+      title: "Write docs",
+      description: "Update the README",
+      status: "pending",
+    })
+
+    const inserted = addTask(content, tasks, "Pick a format", undefined, 2)
+    expect(inserted).toContain("- [ ] **Pick a format**\n\n- [ ] **Write the parser**")
+    expect(inserted).toContain("  depends: `3, parser`")
+    const reparsed = parsePlanFile(inserted)
+    expect(reparsed.tasks.map((t) => t.title)).toEqual([
+      "Set up the project",
+      "Pick a format",
+      "Write the parser",
+      "Add tests",
+    ])
+    expect(reparsed.tasks[0].status).toBe("completed")
+    expect(reparsed.tasks[2].dependsOn).toEqual(["task-1"])
+  })
+
+  test("adds the first task under the Tasks heading", () => {
+    const empty = "# Plan\n\n## Tasks\n\n## Notes\n"
+    expect(parsePlanFile(addTask(empty, [], "Only task")).tasks[0].title).toBe("Only task")
+  })
+
+  test("removes a task with everything indented under it", () => {
+    const { tasks } = parsePlanFile(content)
+    const updated = removeTask(content, tasks, tasks[0])
+    expect(updated).not.toContain("Add package.json")
+    expect(updated).toContain("## Tasks\n\n- [ ] **Write the parser**")
+    expect(updated).toContain("  depends: `1, parser`")
+  })
+
+  test("moves a task and keeps dependencies pointing at the same tasks", () => {
+    const { tasks } = parsePlanFile(content)
+    const updated = moveTask(content, tasks, tasks[2], 1)
+    const reparsed = parsePlanFile(updated)
+    expect(reparsed.tasks.map((t) => t.title)).toEqual([
+      "Add tests",
+      "Set up the project",
+      "Write the parser",
+    ])
+    expect(reparsed.tasks[0].dependsOn).toEqual(["parser", "parser"])
+    expect(reparsed.tasks[2].dependsOn).toEqual(["task-1"])
+    expect(reparsed.tasks[1].subtasks?.[0].completed).toBe(true)
+  })
+
+  test("keeps the IDs of tasks that change number", () => {
+    const { tasks } = parsePlanFile(content)
+    const ids = (updated: string) => parsePlanFile(updated).tasks.map((t) => t.id)
+
+    expect(ids(moveTask(content, tasks, tasks[2], 1))).toEqual(["task-3", "task-1", "parser"])
+    expect(ids(removeTask(content, tasks, tasks[0]))).toEqual(["parser", "task-3"])
+    // Tasks that keep their number aren't given an "id:" line
+    expect(addTask(content, tasks, "Write docs")).not.toContain("id: task-")
+
+    const inserted = addTask(content, tasks, "Pick a format", undefined, 3)
+    expect(ids(inserted)).toEqual(["task-1", "parser", "pick-a-format", "task-3"])
+    const removed = removeTask(content, tasks, tasks[1])
+    expect(ids(addTask(removed, parsePlanFile(removed).tasks, "Write docs"))).toEqual([
+      "task-1",
+      "task-3",
+      "write-docs",
+    ])
+  })
+
+  test("renames and re-describes a task without touching its metadata", () => {
+    const { tasks } = parsePlanFile(content)
+    expect(renameTask(content, tasks[1], "Write the plan parser")).toContain(
+      "- [ ] **Write the plan parser**\n  id: `parser`",
+    )
+
+    const described = parsePlanFile(describeTask(content, tasks[0], "Create src/ and test/"))
+    expect(described.tasks[0].description).toBe("Create src/ and test/")
+    expect(described.tasks[0].subtasks).toHaveLength(1)
+    expect(parsePlanFile(describeTask(content, tasks[0], "")).tasks[0].description).toBe("")
+  })
+})
+
+describe("JSON and YAML plans", () => {
+  const data = {
+    title: "ETL",
+    overview: "Move the data",
+    completion_promise: "DONE",
+    tasks: [
+      { title: "Extract", status: "completed", description: "Read the CSV" },
+      {
+        title: "Transform",
+        id: "transform",
+        depends: [1],
+        subtasks: ["Clean dates", { title: "Dedupe", completed: true }],
+      },
+      { title: "Load", depends: "transform", verify: "bun test" },
+    ],
+  }
+
+  const dirs: string[] = []
+  afterEach(async () => {
+    for (const dir of dirs.splice(0)) {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  async function createPlansDir(): Promise<string> {
+    const dir = path.join(os.tmpdir(), `nelson-plans-test-${Date.now()}`)
+    dirs.push(dir)
+    await fs.mkdir(path.join(dir, ".opencode/plans"), { recursive: true })
+    return dir
+  }
+
+  test("parses a JSON plan into the same shape as markdown", async () => {
+    const dir = await createPlansDir()
+    await Bun.write(path.join(dir, ".opencode/plans/etl.json"), JSON.stringify(data))
+
+    const plan = parsePlanFile((await readPlanFile(dir, ".opencode/plans/etl.json"))!)
+    expect(plan.title).toBe("ETL")
+    expect(plan.overview).toBe("Move the data")
+    expect(plan.completionPromise).toBe("DONE")
+    expect(plan.tasks.map((t) => [t.title, t.status])).toEqual([
+      ["Extract", "completed"],
+      ["Transform", "pending"],
+      ["Load", "pending"],
+    ])
+    expect(plan.tasks[1].dependsOn).toEqual(["task-1"])
+    expect(plan.tasks[1].subtasks?.map((s) => s.completed)).toEqual([false, true])
+    expect(plan.tasks[2]).toMatchObject({ dependsOn: ["transform"], verifyCommand: "bun test" })
+  })
+
+  test("writes status updates back in the plan's own format", async () => {
+    const dir = await createPlansDir()
+    const planFile = ".opencode/plans/etl.yaml"
+    await Bun.write(path.join(dir, planFile), Bun.YAML.stringify(data))
+
+    const content = (await readPlanFile(dir, planFile))!
+    const plan = parsePlanFile(content)
+    await writePlanFile(
+      dir,
+      planFile,
+      updateTaskStatus(content, "transform", plan.tasks, "completed"),
+    )
+
+    const written = Bun.YAML.parse(
+      await Bun.file(path.join(dir, planFile)).text(),
+    ) as StructuredPlan & { tasks: StructuredPlanTask[] }
+    expect(written.completion_promise).toBe("DONE")
+    expect(written.tasks[1]).toEqual({
+      title: "Transform",
+      status: "completed",
+      id: "transform",
+      depends: [1],
+      subtasks: [
+        { title: "Clean dates", completed: false },
+        { title: "Dedupe", completed: true },
+      ],
+    })
+    expect(written.tasks[2]).toMatchObject({ depends: ["transform"], verify: "bun test" })
+  })
+
+  test("resolves plan names to whichever format exists", async () => {
+    const dir = await createPlansDir()
+    await Bun.write(path.join(dir, ".opencode/plans/etl.yaml"), Bun.YAML.stringify(data))
+
+    expect(resolvePlanFile("etl", dir)).toBe(".opencode/plans/etl.yaml")
+    expect(resolvePlanFile("new plan", dir)).toBe(".opencode/plans/new-plan.md")
+    expect(await listPlanFiles(dir)).toEqual([{ name: "etl", path: ".opencode/plans/etl.yaml" }])
+  })
+
+  test("reports unreadable plans and refuses to overwrite them", async () => {
+    const dir = await createPlansDir()
+    const planFile = ".opencode/plans/etl.json"
+    await Bun.write(path.join(dir, planFile), JSON.stringify({ tasks: [{ title: "A", eta: 3 }] }))
+
+    const content = (await readPlanFile(dir, planFile))!
+    expect(parsePlanFile(content).frontmatterError).toContain('unknown field "eta"')
+    await expect(writePlanFile(dir, planFile, content)).rejects.toThrow("could not be read")
+
+    await Bun.write(path.join(dir, planFile), JSON.stringify({ owner: "me", tasks: [] }))
+    expect(parsePlanFile((await readPlanFile(dir, planFile))!).frontmatterError).toContain(
+      'Unknown top-level key "owner"',
+    )
+  })
+
+  test("keeps blank lines in task descriptions", async () => {
+    const dir = await createPlansDir()
+    const planFile = ".opencode/plans/etl.yaml"
+    const description = "Read the CSV\n\nSkip the header row"
+    await Bun.write(
+      path.join(dir, planFile),
+      Bun.YAML.stringify({ tasks: [{ title: "Extract", description }] }),
+    )
+
+    const content = (await readPlanFile(dir, planFile))!
+    const plan = parsePlanFile(content)
+    expect(plan.tasks[0].description).toBe(description)
+    await writePlanFile(dir, planFile, updateTaskStatus(content, "task-1", plan.tasks, "completed"))
+    const written = Bun.YAML.parse(await Bun.file(path.join(dir, planFile)).text()) as {
+      tasks: StructuredPlanTask[]
+    }
+    expect(written.tasks[0]).toEqual({ title: "Extract", status: "completed", description })
+  })
+})
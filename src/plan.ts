@@ -1,15 +1,57 @@
 import * as path from "node:path"
+import { existsSync } from "node:fs"
 import { mkdir, readdir } from "node:fs/promises"
-import type { PlanTask, ParsedPlan } from "./types"
+import type {
+  DependencyProblem,
+  PlanTask,
+  PlanSubtask,
+  ParsedPlan,
+  PlanSettings,
+  TaskStatus,
+  StructuredPlan,
+  StructuredPlanTask,
+} from "./types"
 import { slugify } from "./utils"
 
 export const DEFAULT_PLAN_DIR = ".opencode/plans"
 export const DEFAULT_PLAN_FILE = `${DEFAULT_PLAN_DIR}/PLAN.md`
 
+/**
+ * Plan file extensions, in the order resolvePlanFile looks for them
+ */
+export const PLAN_EXTENSIONS = [".md", ".json", ".yaml", ".yml"]
+
+/**
+ * Checkbox marker written to the plan file for each task status
+ */
+export const STATUS_MARKERS: Record<TaskStatus, string> = {
+  pending: " ",
+  in_progress: "~",
+  completed: "x",
+  skipped: "-",
+  blocked: "!",
+}
+
+/**
+ * Render a task status as a markdown checkbox (e.g. "[x]")
+ */
+export function statusCheckbox(status: TaskStatus): string {
+  return `[${STATUS_MARKERS[status]}]`
+}
+
+/**
+ * Whether the loop may still pick up a task with this status
+ */
+export function isRunnableStatus(status: TaskStatus): boolean {
+  return status === "pending" || status === "in_progress"
+}
+
 /**
  * Resolve a plan file path from either an explicit path or a plan name.
  *
- * @param input - Either a file path (contains `/` or ends with `.md`) or a plan name
+ * @param input - Either a file path (contains `/` or has a plan extension) or a plan name
+ * @param directory - Project root; when given, a name resolves to whichever of
+ * `{slug}.md`, `.json`, `.yaml` or `.yml` exists (markdown if none do)
  * @returns The resolved file path (relative to project root)
  *
  * @example
@@ -17,16 +59,58 @@ export const DEFAULT_PLAN_FILE = `${DEFAULT_PLAN_DIR}/PLAN.md`
  * resolvePlanFile("My New Plan")        // ".opencode/plans/my-new-plan.md"
  * resolvePlanFile("custom/plan.md")     // "custom/plan.md"
  * resolvePlanFile(".opencode/plans/x.md") // ".opencode/plans/x.md"
+ * resolvePlanFile("etl", dir)           // ".opencode/plans/etl.yaml" if that exists
  */
-export function resolvePlanFile(input: string): string {
-  // If input looks like a path (contains / or ends with .md), use as-is
-  if (input.includes("/") || input.endsWith(".md")) {
+export function resolvePlanFile(input: string, directory?: string): string {
+  // If input looks like a path (contains / or has a plan extension), use as-is
+  if (input.includes("/") || PLAN_EXTENSIONS.some((ext) => input.endsWith(ext))) {
     return input
   }
 
   // Otherwise, treat as a name and convert to path
-  const slug = slugify(input)
-  return `${DEFAULT_PLAN_DIR}/${slug}.md`
+  const base = `${DEFAULT_PLAN_DIR}/${slugify(input)}`
+  const ext = directory
+    ? PLAN_EXTENSIONS.find((e) => existsSync(path.join(directory, base + e)))
+    : undefined
+  return base + (ext ?? ".md")
+}
+
+/**
+ * The plan's name: its file name without the plan extension (e.g. "rest-api")
+ */
+export function planSlug(planFile: string): string {
+  const name = path.basename(planFile)
+  const ext = PLAN_EXTENSIONS.find((e) => name.endsWith(e))
+  return ext ? name.slice(0, -ext.length) : name
+}
+
+/**
+ * Path of the git worktree used to run a plan in isolation. It sits next to the
+ * project directory rather than inside it, so the main checkout never stages it.
+ */
+export function worktreePathForPlan(directory: string, planFile: string): string {
+  const project = path.basename(path.resolve(directory))
+  return path.join(path.dirname(path.resolve(directory)), `${project}-nelson-${planSlug(planFile)}`)
+}
+
+/**
+ * Where a plan file is read and written. While the plan has a worktree (see
+ * worktreePathForPlan) the worktree's copy is the live one, so status updates and
+ * summaries never touch the main checkout.
+ */
+export function planFilePath(directory: string, planFile: string): string {
+  if (path.isAbsolute(planFile)) return planFile
+  const worktreeCopy = path.join(worktreePathForPlan(directory, planFile), planFile)
+  return existsSync(worktreeCopy) ? worktreeCopy : path.join(directory, planFile)
+}
+
+/**
+ * The format a plan file is stored in, from its extension
+ */
+export function planFormat(planFile: string): "markdown" | "json" | "yaml" {
+  if (planFile.endsWith(".json")) return "json"
+  if (planFile.endsWith(".yaml") || planFile.endsWith(".yml")) return "yaml"
+  return "markdown"
 }
 
 /**
@@ -46,9 +130,9 @@ export async function listPlanFiles(
   try {
     const entries = await readdir(plansDir, { withFileTypes: true })
     return entries
-      .filter((entry) => entry.isFile() && entry.name.endsWith(".md"))
+      .filter((entry) => entry.isFile() && PLAN_EXTENSIONS.some((e) => entry.name.endsWith(e)))
       .map((entry) => ({
-        name: entry.name.replace(/\.md$/, ""),
+        name: planSlug(entry.name),
         path: `${DEFAULT_PLAN_DIR}/${entry.name}`,
       }))
       .sort((a, b) => a.name.localeCompare(b.name))
@@ -59,33 +143,323 @@ export async function listPlanFiles(
 }
 
 /**
- * Read a plan file from disk
+ * Read a plan file from disk (from its worktree while it has one, see planFilePath).
+ * JSON and YAML plans are returned as the equivalent markdown (see
+ * renderStructuredPlan), so everything else only deals with markdown.
  */
 export async function readPlanFile(directory: string, planFile: string): Promise<string | null> {
-  const planPath = path.isAbsolute(planFile) ? planFile : path.join(directory, planFile)
+  const planPath = planFilePath(directory, planFile)
+  let text: string
   try {
     const file = Bun.file(planPath)
-    if (await file.exists()) {
-      return await file.text()
-    }
+    if (!(await file.exists())) return null
+    text = await file.text()
   } catch {
     // Plan file not found
+    return null
+  }
+
+  const format = planFormat(planFile)
+  if (format === "markdown") return text
+  try {
+    return renderStructuredPlan(format === "json" ? JSON.parse(text) : Bun.YAML.parse(text))
+  } catch (err) {
+    // Reported by parsePlanFile as the plan's frontmatterError
+    const reason = (err instanceof Error ? err.message : String(err)).replace(/\s+/g, " ")
+    return `${INVALID_PLAN_MARKER} ${reason} -->\n`
   }
-  return null
 }
 
 /**
- * Write a plan file to disk
+ * Write a plan file to disk (to its worktree while it has one, see planFilePath). For
+ * JSON and YAML plans, `content` is the markdown from readPlanFile and is converted
+ * back to the file's format.
  */
 export async function writePlanFile(
   directory: string,
   planFile: string,
   content: string,
 ): Promise<void> {
-  const planPath = path.isAbsolute(planFile) ? planFile : path.join(directory, planFile)
+  const planPath = planFilePath(directory, planFile)
+  const format = planFormat(planFile)
+  if (format !== "markdown" && content.startsWith(INVALID_PLAN_MARKER)) {
+    throw new Error(`Refusing to overwrite ${planFile}: it could not be read`)
+  }
+
+  let output = content
+  if (format === "json") {
+    output = JSON.stringify(toStructuredPlan(content), null, 2) + "\n"
+  } else if (format === "yaml") {
+    output = Bun.YAML.stringify(toStructuredPlan(content), null, 2).trimEnd() + "\n"
+  }
+
   const dir = path.dirname(planPath)
   await mkdir(dir, { recursive: true })
-  await Bun.write(planPath, content)
+  await Bun.write(planPath, output)
+}
+
+/**
+ * First line of the markdown returned for a JSON/YAML plan that can't be read
+ */
+const INVALID_PLAN_MARKER = "<!-- nelson:invalid-plan"
+
+/**
+ * Fields a task may have in a JSON/YAML plan
+ */
+const STRUCTURED_TASK_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "id",
+  "depends",
+  "verify",
+  "type",
+  "scope",
+  "subtasks",
+  "acceptance",
+  "summary",
+]
+
+/**
+ * Render a parsed JSON/YAML plan as markdown. Top-level keys other than title,
+ * overview and tasks are plan settings (the frontmatter settings of a markdown plan).
+ *
+ * @throws If the data doesn't have the shape of a plan
+ */
+export function renderStructuredPlan(data: unknown): string {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("A JSON/YAML plan must be an object with title, overview and tasks")
+  }
+  const { title, overview, tasks = [], ...settings } = data as StructuredPlan
+  if (!Array.isArray(tasks)) {
+    throw new Error(`"tasks" must be a list`)
+  }
+
+  for (const [name, value] of Object.entries(settings)) {
+    if (!FRONTMATTER_SETTINGS[name]) {
+      throw new Error(
+        `Unknown top-level key "${name}". Valid keys: title, overview, tasks, ${Object.keys(FRONTMATTER_SETTINGS).join(", ")}`,
+      )
+    }
+    const problem = settingError(name, value, "Plan setting")
+    if (problem) throw new Error(problem)
+  }
+
+  const lines: string[] = []
+  const settingLines = Object.entries(settings).map(([k, v]) => `${k}: ${JSON.stringify(v)}`)
+  if (settingLines.length > 0) {
+    lines.push("---", ...settingLines, "---")
+  }
+  if (title) lines.push(`# ${title}`, "")
+  if (overview) lines.push("## Overview", "", String(overview).trim(), "")
+  lines.push("## Tasks", "")
+
+  tasks.forEach((task: StructuredPlanTask, i) => {
+    if (typeof task !== "object" || task === null || typeof task.title !== "string") {
+      throw new Error(`Task ${i + 1} must be an object with a "title"`)
+    }
+    const unknown = Object.keys(task).find((key) => !STRUCTURED_TASK_FIELDS.includes(key))
+    if (unknown) {
+      throw new Error(
+        `Task ${i + 1} has unknown field "${unknown}". Valid fields: ${STRUCTURED_TASK_FIELDS.join(", ")}`,
+      )
+    }
+    const status = task.status ?? "pending"
+    if (!(status in STATUS_MARKERS)) {
+      throw new Error(
+        `Task ${i + 1} has unknown status "${status}". Valid statuses: ${Object.keys(STATUS_MARKERS).join(", ")}`,
+      )
+    }
+
+    lines.push(`- ${statusCheckbox(status)} **${task.title}**`)
+    if (task.id) lines.push(`  id: \`${task.id}\``)
+    const depends = Array.isArray(task.depends) ? task.depends.join(", ") : task.depends
+    if (depends) lines.push(`  depends: \`${depends}\``)
+    if (task.type) lines.push(`  type: \`${task.type}\``)
+    if (task.scope) lines.push(`  scope: \`${task.scope}\``)
+    if (task.verify) lines.push(`  verify: \`${task.verify}\``)
+    // Blank lines between paragraphs stay, so a write-back doesn't change the text
+    const description = String(task.description ?? "").trim()
+    for (const line of description ? description.split("\n") : []) {
+      lines.push(line.trim() ? `  ${line.trim()}` : "")
+    }
+    if (task.acceptance?.length) {
+      lines.push("  Acceptance:", ...task.acceptance.map((criterion) => `  - ${criterion}`))
+    }
+    for (const sub of task.subtasks ?? []) {
+      const subtask = typeof sub === "string" ? { title: sub, completed: false } : sub
+      lines.push(`  - ${subtask.completed ? "[x]" : "[ ]"} ${subtask.title}`)
+    }
+    if (task.summary?.length) {
+      lines.push(...[SUMMARY_START, ...task.summary, SUMMARY_END].map((line) => `  ${line}`))
+    }
+    lines.push("")
+  })
+
+  return lines.join("\n")
+}
+
+/**
+ * Convert markdown plan content to the JSON/YAML plan structure (the reverse of
+ * renderStructuredPlan). Dependencies on tasks without an explicit ID are written as
+ * task numbers.
+ */
+export function toStructuredPlan(content: string): StructuredPlan {
+  const plan = parsePlanFile(content)
+  const lines = content.split("\n")
+  const data: StructuredPlan = {}
+  if (plan.title) data.title = plan.title
+  if (plan.overview) data.overview = plan.overview
+
+  for (const [name, setting] of Object.entries(FRONTMATTER_SETTINGS)) {
+    if (plan.settings[setting.key] !== undefined) data[name] = plan.settings[setting.key]
+  }
+  // Settings given inline in markdown rather than in the frontmatter
+  if (plan.completionPromise) data.completion_promise = plan.completionPromise
+  if (plan.verifyCommand) data.verify = plan.verifyCommand
+
+  const hasDefaultId = (task: PlanTask, i: number) => task.id === `task-${i + 1}`
+  data.tasks = plan.tasks.map((task, i) => {
+    const structured: StructuredPlanTask = { title: task.title, status: task.status }
+    if (!hasDefaultId(task, i)) structured.id = task.id
+    if (task.description) structured.description = task.description
+    if (task.dependsOn?.length) {
+      structured.depends = task.dependsOn.map((dep) => {
+        const index = plan.tasks.findIndex((t) => t.id === dep)
+        return index !== -1 && hasDefaultId(plan.tasks[index], index) ? index + 1 : dep
+      })
+    }
+    if (task.verifyCommand) structured.verify = task.verifyCommand
+    if (task.commitType) structured.type = task.commitType
+    if (task.commitScope) structured.scope = task.commitScope
+    if (task.subtasks?.length) {
+      structured.subtasks = task.subtasks.map((sub) => ({
+        title: sub.title,
+        completed: sub.completed,
+      }))
+    }
+    if (task.acceptance?.length) structured.acceptance = task.acceptance
+    const summary = getTaskSummary(lines, task)
+    if (summary) structured.summary = summary
+    return structured
+  })
+  return data
+}
+
+/**
+ * Frontmatter keys and the type each value must have
+ */
+const FRONTMATTER_SETTINGS: Record<string, { key: keyof PlanSettings; type: string }> = {
+  completion_promise: { key: "completionPromise", type: "string" },
+  max_iterations: { key: "maxIterations", type: "number" },
+  commit: { key: "commit", type: "boolean" },
+  commit_prefix: { key: "commitPrefix", type: "string" },
+  verify: { key: "verify", type: "string" },
+  branch: { key: "branch", type: "string" },
+  create_branch: { key: "createBranch", type: "boolean" },
+  worktree: { key: "worktree", type: "boolean" },
+  squash: { key: "squash", type: "boolean" },
+  summaries: { key: "summaries", type: "boolean" },
+  max_commit_attempts: { key: "maxCommitAttempts", type: "number" },
+  commit_template: { key: "commitTemplate", type: "string" },
+  commit_max_length: { key: "commitMaxLength", type: "number" },
+}
+
+/**
+ * Check the value of a known plan setting. `label` says where the setting was given.
+ *
+ * @returns An error message, or null if the value is fine (null means unset)
+ */
+function settingError(name: string, value: unknown, label: string): string | null {
+  const setting = FRONTMATTER_SETTINGS[name]
+  if (value === null) return null
+  if (typeof value !== setting.type) {
+    return `${label} "${name}" must be a ${setting.type}, got ${JSON.stringify(value)}`
+  }
+  if (setting.type === "number" && (!Number.isInteger(value) || (value as number) < 0)) {
+    return `${label} "${name}" must be a whole number of 0 or more`
+  }
+  return null
+}
+
+/**
+ * Parse an optional YAML frontmatter block (between `---` lines at the top of the file).
+ *
+ * @returns The settings, the index of the first line after the block, and an error
+ * message if the block is malformed (in which case settings is empty)
+ */
+function parseFrontmatter(lines: string[]): {
+  settings: PlanSettings
+  bodyStart: number
+  error: string | null
+} {
+  if (lines[0]?.trim() !== "---") {
+    return { settings: {}, bodyStart: 0, error: null }
+  }
+
+  const closeIdx = lines.findIndex((line, i) => i > 0 && line.trim() === "---")
+  if (closeIdx === -1) {
+    return {
+      settings: {},
+      bodyStart: 0,
+      error: "Frontmatter starting on line 1 is never closed - add a line containing only ---",
+    }
+  }
+
+  const fail = (error: string) => ({ settings: {}, bodyStart: closeIdx + 1, error })
+
+  let data: unknown
+  try {
+    data = Bun.YAML.parse(lines.slice(1, closeIdx).join("\n"))
+  } catch (err) {
+    return fail(`Invalid YAML in frontmatter: ${err instanceof Error ? err.message : err}`)
+  }
+
+  if (data === null || data === undefined) {
+    return { settings: {}, bodyStart: closeIdx + 1, error: null }
+  }
+  if (typeof data !== "object" || Array.isArray(data)) {
+    return fail("Frontmatter must be a list of `key: value` settings")
+  }
+
+  const settings: PlanSettings = {}
+  for (const [name, value] of Object.entries(data)) {
+    const setting = FRONTMATTER_SETTINGS[name]
+    if (!setting) {
+      return fail(
+        `Unknown frontmatter setting "${name}". Valid settings: ${Object.keys(FRONTMATTER_SETTINGS).join(", ")}`,
+      )
+    }
+    if (value === null) continue
+    const problem = settingError(name, value, "Frontmatter setting")
+    if (problem) return fail(problem)
+    ;(settings as Record<string, unknown>)[setting.key] =
+      typeof value === "string" ? value.trim() : value
+  }
+
+  return { settings, bodyStart: closeIdx + 1, error: null }
+}
+
+/**
+ * Line under a task that starts its acceptance criteria list
+ */
+const ACCEPTANCE_HEADING = /^acceptance(?:\s+criteria)?:$/i
+
+/**
+ * Match an `id:`, `depends:`, `verify:`, `type:` or `scope:` line. Only the exact
+ * lowercase key counts, with the value in a code span (verify: `bun test`) or the whole
+ * line in an HTML comment (<!-- verify: bun test -->), so prose like "Depends on: the
+ * staging cluster being up" stays prose.
+ */
+export function matchMetadataLine(
+  line: string,
+  key: "id" | "depends" | "verify" | "type" | "scope",
+): { indent: number; value: string } | null {
+  const match = line.match(
+    new RegExp(`^(\\s*)(?:<!--\\s*${key}:\\s*(.+?)\\s*-->|${key}:\\s*\`([^\`]+)\`)\\s*$`),
+  )
+  if (!match) return null
+  return { indent: match[1].length, value: (match[2] ?? match[3]).trim() }
 }
 
 /**
@@ -94,17 +468,30 @@ export async function writePlanFile(
 export function parsePlanFile(content: string): ParsedPlan {
   const lines = content.split("\n")
   const tasks: PlanTask[] = []
+  const frontmatter = parseFrontmatter(lines)
+  // A JSON/YAML plan that couldn't be read (see readPlanFile)
+  const formatError = lines[0].startsWith(INVALID_PLAN_MARKER)
+    ? `Invalid plan file: ${lines[0].slice(INVALID_PLAN_MARKER.length, -"-->".length).trim()}`
+    : null
   let title = ""
   let overview = ""
   let completionPromise: string | null = null
+  let verifyCommand: string | null = null
   let inOverview = false
   let currentTask: Partial<PlanTask> | null = null
   let taskDescription: string[] = []
+  let inAcceptance = false
 
-  for (let i = 0; i < lines.length; i++) {
+  for (let i = frontmatter.bodyStart; i < lines.length; i++) {
     const line = lines[i]
     const lineNumber = i + 1
 
+    // Skip generated change summaries (see setTaskSummary)
+    if (line.trim() === SUMMARY_START) {
+      while (i < lines.length - 1 && lines[i].trim() !== SUMMARY_END) i++
+      continue
+    }
+
     // Extract title from first H1
     if (!title && line.match(/^#\s+(.+)/)) {
       title = line.replace(/^#\s+/, "").trim()
@@ -112,12 +499,87 @@ export function parsePlanFile(content: string): ParsedPlan {
     }
 
     // Check for completion promise in frontmatter or special comment
-    const promiseMatch = line.match(/completion[_-]?promise:\s*["']?([^"'\n]+)["']?/i)
+    const promiseMatch = line.match(
+      /completion[_-]?promise:\s*["']?([^"'\n]+?)["']?\s*(?:-->)?\s*$/i,
+    )
     if (promiseMatch) {
       completionPromise = promiseMatch[1].trim()
       continue
     }
 
+    // Check for a verification command: indented under a task applies to that task,
+    // otherwise it applies to the whole plan (e.g. verify: `bun test`)
+    const verifyMatch = matchMetadataLine(line, "verify")
+    if (verifyMatch) {
+      if (currentTask && verifyMatch.indent >= 2) {
+        currentTask.verifyCommand = verifyMatch.value
+      } else {
+        verifyCommand = verifyMatch.value
+      }
+      continue
+    }
+
+    // Check for task metadata: a stable ID (id: `setup-db`), dependencies on other
+    // tasks by number or ID (depends: `1, setup-db`) and the commit type/scope used by
+    // commit templates (type: `fix`, scope: `parser`)
+    if (currentTask && line.match(/^\s{2,}/)) {
+      const idMatch = matchMetadataLine(line, "id")
+      if (idMatch && /^[\w-]+$/.test(idMatch.value)) {
+        currentTask.id = idMatch.value
+        continue
+      }
+      const dependsMatch = matchMetadataLine(line, "depends")
+      if (dependsMatch) {
+        currentTask.dependsOn = dependsMatch.value
+          .split(/[\s,]+/)
+          .map((ref) => ref.replace(/^#/, ""))
+          .filter(Boolean)
+        continue
+      }
+      const typeMatch = matchMetadataLine(line, "type")
+      if (typeMatch && /^[\w-]+$/.test(typeMatch.value)) {
+        currentTask.commitType = typeMatch.value
+        continue
+      }
+      const scopeMatch = matchMetadataLine(line, "scope")
+      if (scopeMatch && /^[\w./-]+$/.test(scopeMatch.value)) {
+        currentTask.commitScope = scopeMatch.value
+        continue
+      }
+
+      // An "Acceptance:" line starts the task's acceptance criteria: the plain
+      // (non-checkbox) list items right after it
+      if (ACCEPTANCE_HEADING.test(line.trim())) {
+        currentTask.acceptance = currentTask.acceptance ?? []
+        inAcceptance = true
+        continue
+      }
+      if (inAcceptance) {
+        const criterionMatch = line.match(/^\s+(?:[-*]|\d+\.)\s+(?!\[[ xX]\])(.+?)\s*$/)
+        if (criterionMatch) {
+          currentTask.acceptance?.push(criterionMatch[1])
+          continue
+        }
+        inAcceptance = false
+      }
+
+      // Nested checkbox items are subtasks of the current task
+      const subtaskMatch = line.match(
+        /^\s+(?:[-*]|\d+\.)\s+\[([ xX])\]\s*(?:\*\*)?(.+?)(?:\*\*)?\s*$/,
+      )
+      if (subtaskMatch) {
+        currentTask.subtasks = [
+          ...(currentTask.subtasks ?? []),
+          {
+            title: subtaskMatch[2].trim(),
+            completed: subtaskMatch[1].toLowerCase() === "x",
+            lineNumber,
+          },
+        ]
+        continue
+      }
+    }
+
     // Check for ## Overview section
     if (line.match(/^##\s+Overview/i)) {
       inOverview = true
@@ -136,8 +598,8 @@ export function parsePlanFile(content: string): ParsedPlan {
       continue
     }
 
-    // Parse task lines: - [ ] or - [x] or numbered like 1. [ ]
-    const taskMatch = line.match(/^(?:\d+\.\s+)?-?\s*\[([ xX])\]\s*(?:\*\*)?(.+?)(?:\*\*)?$/)
+    // Parse task lines: - [ ] or - [x] (or [~], [-], [!]) or numbered like 1. [ ]
+    const taskMatch = line.match(/^(?:\d+\.\s+)?-?\s*\[([ xX~!-])\]\s*(?:\*\*)?(.+?)(?:\*\*)?$/)
     if (taskMatch) {
       // Save previous task
       if (currentTask && currentTask.id) {
@@ -145,23 +607,30 @@ export function parsePlanFile(content: string): ParsedPlan {
         tasks.push(currentTask as PlanTask)
       }
 
-      const isCompleted = taskMatch[1].toLowerCase() === "x"
+      const marker = taskMatch[1].toLowerCase()
+      const status = (Object.keys(STATUS_MARKERS) as TaskStatus[]).find(
+        (key) => STATUS_MARKERS[key] === marker,
+      )
       const taskTitle = taskMatch[2].trim()
 
+      inAcceptance = false
       currentTask = {
         id: `task-${tasks.length + 1}`,
         title: taskTitle,
         description: "",
-        status: isCompleted ? "completed" : "pending",
+        status: status ?? "pending",
         lineNumber,
       }
       taskDescription = []
       continue
     }
 
-    // Collect task description (indented content after task)
+    // Collect task description (indented content after task), keeping one blank line
+    // between paragraphs
     if (currentTask && line.match(/^\s{2,}/) && line.trim()) {
       taskDescription.push(line.trim())
+    } else if (currentTask && !line.trim() && taskDescription.at(-1)) {
+      taskDescription.push("")
     }
   }
 
@@ -171,15 +640,135 @@ export function parsePlanFile(content: string): ParsedPlan {
     tasks.push(currentTask as PlanTask)
   }
 
+  // Resolve dependency references (task numbers or IDs) to task IDs. Unknown
+  // references are kept as-is so validateDependencies can report them.
+  for (const task of tasks) {
+    if (!task.dependsOn) continue
+    task.dependsOn = task.dependsOn.map((ref) => {
+      const num = /^\d+$/.test(ref) ? parseInt(ref, 10) : NaN
+      if (!isNaN(num) && num >= 1 && num <= tasks.length) {
+        return tasks[num - 1].id
+      }
+      return tasks.find((t) => t.id.toLowerCase() === ref.toLowerCase())?.id ?? ref
+    })
+  }
+
+  // Frontmatter settings take precedence over inline settings
+  const { settings } = frontmatter
   return {
     title,
     overview,
     tasks,
-    completionPromise,
+    completionPromise: settings.completionPromise || completionPromise,
+    verifyCommand: settings.verify || verifyCommand,
+    settings,
+    frontmatterError: formatError ?? frontmatter.error,
     rawContent: content,
   }
 }
 
+/**
+ * Check a plan's task dependencies for unknown references, duplicate IDs and cycles.
+ *
+ * @returns A human-readable error message with a suggested fix, or null if the
+ * dependency graph is valid
+ */
+export function validateDependencies(tasks: PlanTask[]): string | null {
+  const problem = findDependencyProblem(tasks)
+  return problem ? `${problem.message} ${problem.fix}.` : null
+}
+
+/**
+ * Find the first problem with a plan's task dependencies (see validateDependencies),
+ * along with the task it belongs to
+ */
+export function findDependencyProblem(tasks: PlanTask[]): DependencyProblem | null {
+  const taskNum = (id: string) => tasks.findIndex((t) => t.id === id) + 1
+
+  const seen = new Set<string>()
+  for (const task of tasks) {
+    if (seen.has(task.id)) {
+      return {
+        task,
+        message: `Duplicate task ID "${task.id}" (task ${tasks.indexOf(task) + 1}). Task IDs must be unique.`,
+        fix: `Change the ID of one of the tasks with ID "${task.id}"`,
+      }
+    }
+    seen.add(task.id)
+  }
+
+  for (const task of tasks) {
+    for (const dep of task.dependsOn ?? []) {
+      if (!seen.has(dep)) {
+        return {
+          task,
+          message: `Task ${taskNum(task.id)} (${task.title}) depends on unknown task "${dep}".`,
+          fix: `Remove "${dep}" from its depends, or add a task with ID "${dep}"`,
+        }
+      }
+      if (dep === task.id) {
+        return {
+          task,
+          message: `Task ${taskNum(task.id)} (${task.title}) depends on itself.`,
+          fix: `Remove "${dep}" from its depends`,
+        }
+      }
+    }
+  }
+
+  // Depth-first search for cycles, tracking the current path
+  const visited = new Set<string>()
+  const path: string[] = []
+  const visit = (id: string): string[] | null => {
+    const onPathIdx = path.indexOf(id)
+    if (onPathIdx !== -1) return [...path.slice(onPathIdx), id]
+    if (visited.has(id)) return null
+    visited.add(id)
+    path.push(id)
+    const task = tasks.find((t) => t.id === id)
+    for (const dep of task?.dependsOn ?? []) {
+      const cycle = visit(dep)
+      if (cycle) return cycle
+    }
+    path.pop()
+    return null
+  }
+
+  for (const task of tasks) {
+    const cycle = visit(task.id)
+    if (cycle) {
+      const described = cycle.map((id) => `${taskNum(id)} (${id})`).join(" → ")
+      return {
+        task: tasks.find((t) => t.id === cycle[0]) ?? task,
+        message: `Dependency cycle detected: ${described}.`,
+        fix: "Remove one of these dependencies so the tasks can run",
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Get the dependencies of a task that are not yet completed
+ */
+export function getBlockingTasks(task: PlanTask, tasks: PlanTask[]): PlanTask[] {
+  return (task.dependsOn ?? [])
+    .map((dep) => tasks.find((t) => t.id === dep))
+    .filter((t): t is PlanTask => !!t && t.status !== "completed")
+}
+
+/**
+ * Find the index of the next task to work on: the first pending or in-progress
+ * task whose dependencies are all complete. Skipped and blocked tasks are never
+ * picked. Returns -1 if no task is ready.
+ */
+export function findNextTaskIndex(tasks: PlanTask[]): number {
+  return tasks.findIndex(
+    (t) => isRunnableStatus(t.status) && getBlockingTasks(t, tasks).length === 0,
+  )
+}
+
 /**
  * Update a task's status in the plan file content
  */
@@ -187,7 +776,7 @@ export function updateTaskStatus(
   content: string,
   taskId: string,
   tasks: PlanTask[],
-  newStatus: "completed" | "pending",
+  newStatus: TaskStatus,
 ): string {
   const task = tasks.find((t) => t.id === taskId)
   if (!task) return content
@@ -196,51 +785,342 @@ export function updateTaskStatus(
   const line = lines[task.lineNumber - 1]
 
   // Update the checkbox
-  const updatedLine =
-    newStatus === "completed" ? line.replace(/\[\s\]/, "[x]") : line.replace(/\[[xX]\]/, "[ ]")
+  const updatedLine = line.replace(/\[[ xX~!-]\]/, statusCheckbox(newStatus))
 
   lines[task.lineNumber - 1] = updatedLine
   return lines.join("\n")
 }
 
 /**
- * Default template for new plan files
+ * Check or uncheck a subtask in the plan file content
  */
-export const PLAN_TEMPLATE = `# Project Plan
+export function updateSubtaskStatus(
+  content: string,
+  subtask: PlanSubtask,
+  completed: boolean,
+): string {
+  const lines = content.split("\n")
+  lines[subtask.lineNumber - 1] = lines[subtask.lineNumber - 1].replace(
+    /\[[ xX]\]/,
+    completed ? "[x]" : "[ ]",
+  )
+  return lines.join("\n")
+}
 
-<!-- Optional: Set a completion promise -->
-<!-- completion_promise: ALL_TASKS_COMPLETE -->
+/**
+ * Get the subtasks of a task that are not yet checked
+ */
+export function getPendingSubtasks(task: PlanTask): PlanSubtask[] {
+  return (task.subtasks ?? []).filter((sub) => !sub.completed)
+}
 
-## Overview
+/**
+ * Markers around the generated change summary under a completed task
+ */
+export const SUMMARY_START = "<!-- nelson:summary -->"
+export const SUMMARY_END = "<!-- /nelson:summary -->"
 
-Describe your project goals and context here. This section helps the AI understand
-the bigger picture and make better decisions.
+/**
+ * Find the index of the last line belonging to a task: the task line plus every
+ * following indented line (blank lines in between are allowed)
+ */
+function taskBlockEnd(lines: string[], task: PlanTask): number {
+  let end = task.lineNumber - 1
+  for (let i = task.lineNumber; i < lines.length; i++) {
+    if (!lines[i].trim()) continue
+    if (!lines[i].match(/^\s{2,}|^\t/)) break
+    end = i
+  }
+  return end
+}
 
-## Tasks
+/**
+ * Replace the generated change summary under a task, or remove it when `summary` is
+ * null. The summary is wrapped in SUMMARY_START/SUMMARY_END so parsePlanFile skips it.
+ */
+export function setTaskSummary(content: string, task: PlanTask, summary: string[] | null): string {
+  const lines = content.split("\n")
 
-- [ ] **Task 1: Setup and Configuration**
-  Initialize the project structure and configure dependencies.
-  Include any specific requirements or constraints.
+  // Drop any existing summary within the task's block
+  const end = taskBlockEnd(lines, task)
+  const start = lines.findIndex(
+    (line, i) => i >= task.lineNumber && i <= end && line.trim() === SUMMARY_START,
+  )
+  if (start !== -1) {
+    let stop = start
+    while (stop < end && lines[stop].trim() !== SUMMARY_END) stop++
+    lines.splice(start, stop - start + 1)
+  }
 
-- [ ] **Task 2: Implement Core Feature**
-  Describe what needs to be built.
-  List acceptance criteria if helpful.
+  if (summary) {
+    const block = [SUMMARY_START, ...summary, SUMMARY_END].map((line) => `  ${line}`)
+    lines.splice(taskBlockEnd(lines, task) + 1, 0, ...block)
+  }
+  return lines.join("\n")
+}
 
-- [ ] **Task 3: Add Tests**
-  Write tests for the implemented features.
-  Specify coverage requirements if any.
+/**
+ * Find a task by number (1, 2, 3...) or ID
+ *
+ * @returns The task's index in `tasks`, or -1 if there is no match
+ */
+export function findTaskIndex(tasks: PlanTask[], ref: string): number {
+  const trimmed = ref.trim().replace(/^#/, "")
+  if (/^\d+$/.test(trimmed)) {
+    const num = parseInt(trimmed, 10)
+    return num >= 1 && num <= tasks.length ? num - 1 : -1
+  }
+  return tasks.findIndex((t) => t.id.toLowerCase() === trimmed.toLowerCase())
+}
 
-- [ ] **Task 4: Documentation**
-  Update README and add inline documentation.
+/**
+ * Rewrite numeric references in every "depends:" line after tasks were added, removed
+ * or reordered. `renumber` maps an old task number to its new one.
+ */
+function renumberDependencies(content: string, renumber: (num: number) => number): string {
+  return content
+    .split("\n")
+    .map((line) => {
+      const match = matchMetadataLine(line, "depends")
+      if (!match) return line
+      const refs = match.value.replace(
+        /(^|[\s,])(#?)(\d+)(?=[\s,]|$)/g,
+        (_, sep: string, hash: string, num: string) =>
+          `${sep}${hash}${renumber(parseInt(num, 10))}`,
+      )
+      const at = line.lastIndexOf(match.value)
+      return line.slice(0, at) + refs + line.slice(at + match.value.length)
+    })
+    .join("\n")
+}
 
-## Completion
+/**
+ * Write each task's current ID as an explicit "id:" line for tasks `from` to `to`
+ * (1-based, inclusive) that only have a positional one (task-N). Commit trailers record
+ * task IDs, so a task that is about to change number must keep the ID it had.
+ */
+function pinTaskIds(content: string, tasks: PlanTask[], from: number, to: number): string {
+  const lines = content.split("\n")
+  for (let i = Math.min(to, tasks.length); i >= Math.max(from, 1); i--) {
+    const task = tasks[i - 1]
+    const block = lines.slice(task.lineNumber, taskBlockEnd(lines, task) + 1)
+    if (block.some((line) => matchMetadataLine(line, "id"))) continue
+    lines.splice(task.lineNumber, 0, `  id: \`${task.id}\``)
+  }
+  return lines.join("\n")
+}
 
-When all tasks are complete and verified, output:
-<promise>ALL_TASKS_COMPLETE</promise>
+/**
+ * Cut a task's block (see taskBlockEnd) out of the plan lines, along with the blank
+ * line that separated it from the next task
+ *
+ * @returns The removed block, without the separator
+ */
+function cutTaskBlock(lines: string[], task: PlanTask): string[] {
+  const start = task.lineNumber - 1
+  const end = taskBlockEnd(lines, task)
+  const block = lines.slice(start, end + 1)
+  const separated = start > 0 && !lines[start - 1].trim() && end + 1 < lines.length
+  const trailing = separated && !lines[end + 1].trim() ? 1 : 0
+  lines.splice(start, end - start + 1 + trailing)
+  return block
+}
+
+/**
+ * Insert a task block so it becomes task number `position` (after the last task when
+ * `position` is past the end). Tasks separated by blank lines keep that spacing.
+ */
+function insertTaskBlock(
+  lines: string[],
+  tasks: PlanTask[],
+  position: number,
+  block: string[],
+): void {
+  const spaced = tasks.length > 1 && !lines[tasks[1].lineNumber - 2].trim()
+  if (position <= tasks.length) {
+    lines.splice(tasks[position - 1].lineNumber - 1, 0, ...block, ...(spaced ? [""] : []))
+  } else if (tasks.length > 0) {
+    const end = taskBlockEnd(lines, tasks[tasks.length - 1])
+    lines.splice(end + 1, 0, ...(spaced ? [""] : []), ...block)
+  } else {
+    const heading = lines.findIndex((line) => /^##\s+Tasks/i.test(line))
+    if (heading === -1) {
+      while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop()
+      lines.push("", "## Tasks", "", ...block, "")
+    } else {
+      lines.splice(heading + 1, 0, "", ...block)
+    }
+  }
+}
 
----
+/**
+ * Add a new pending task so it becomes task number `position` (default: at the end).
+ * Later tasks, and "depends:" references to them, move down by one; they keep their
+ * IDs (see pinTaskIds).
+ */
+export function addTask(
+  content: string,
+  tasks: PlanTask[],
+  title: string,
+  description?: string,
+  position?: number,
+): string {
+  const at = Math.min(Math.max(position ?? tasks.length + 1, 1), tasks.length + 1)
+  const pinned = pinTaskIds(content, tasks, at, tasks.length)
+  // The new task can't take the positional ID of a task it displaced (or of a removed one)
+  const ids = new Set(tasks.map((t) => t.id))
+  let id: string | null = null
+  if (ids.has(`task-${at}`)) {
+    const base = slugify(title) || "task"
+    id = base
+    for (let n = 2; ids.has(id); n++) id = `${base}-${n}`
+  }
+  const block = [
+    `- [ ] **${title}**`,
+    ...(id ? [`  id: \`${id}\``] : []),
+    ...(description ? description.split("\n").map((line) => `  ${line.trim()}`) : []),
+  ]
+  const lines = renumberDependencies(pinned, (num) => (num >= at ? num + 1 : num)).split("\n")
+  insertTaskBlock(lines, parsePlanFile(pinned).tasks, at, block)
+  return lines.join("\n")
+}
 
-## Notes
+/**
+ * Remove a task and everything indented under it. Later tasks, and "depends:"
+ * references to them, move up by one; they keep their IDs (see pinTaskIds).
+ */
+export function removeTask(content: string, tasks: PlanTask[], task: PlanTask): string {
+  const removed = tasks.indexOf(task) + 1
+  const pinned = pinTaskIds(content, tasks, removed + 1, tasks.length)
+  const lines = pinned.split("\n")
+  cutTaskBlock(lines, parsePlanFile(pinned).tasks[removed - 1])
+  return renumberDependencies(lines.join("\n"), (num) => (num > removed ? num - 1 : num))
+}
 
-Add any additional notes, constraints, or context here.
-`
+/**
+ * Move a task (with everything indented under it) so it becomes task number `position`.
+ * Every task that changes number keeps its ID (see pinTaskIds).
+ */
+export function moveTask(
+  content: string,
+  tasks: PlanTask[],
+  task: PlanTask,
+  position: number,
+): string {
+  const from = tasks.indexOf(task) + 1
+  const to = Math.min(Math.max(position, 1), tasks.length)
+  if (from === to) return content
+
+  const pinned = pinTaskIds(content, tasks, Math.min(from, to), Math.max(from, to))
+  const lines = pinned.split("\n")
+  const block = cutTaskBlock(lines, parsePlanFile(pinned).tasks[from - 1])
+  insertTaskBlock(lines, parsePlanFile(lines.join("\n")).tasks, to, block)
+  return renumberDependencies(lines.join("\n"), (num) => {
+    if (num === from) return to
+    if (from < to && num > from && num <= to) return num - 1
+    if (from > to && num >= to && num < from) return num + 1
+    return num
+  })
+}
+
+/**
+ * Change a task's title, keeping its checkbox and formatting
+ */
+export function renameTask(content: string, task: PlanTask, title: string): string {
+  const lines = content.split("\n")
+  const line = lines[task.lineNumber - 1]
+  const at = line.indexOf(task.title, line.indexOf("]") + 1)
+  lines[task.lineNumber - 1] = line.slice(0, at) + title + line.slice(at + task.title.length)
+  return lines.join("\n")
+}
+
+/**
+ * Replace a task's description (the plain indented lines under it). Metadata, verify
+ * commands, subtasks and change summaries are left where they are.
+ */
+export function describeTask(content: string, task: PlanTask, description: string): string {
+  const lines = content.split("\n")
+  const end = taskBlockEnd(lines, task)
+  const kept: string[] = []
+  let inSummary = false
+  let inAcceptance = false
+  let subtaskIndent = Infinity
+  for (let i = task.lineNumber; i <= end; i++) {
+    const line = lines[i]
+    const trimmed = line.trim()
+    const indent = line.length - line.trimStart().length
+    if (trimmed === SUMMARY_START) inSummary = true
+    // The acceptance criteria list stays as well
+    if (ACCEPTANCE_HEADING.test(trimmed)) {
+      inAcceptance = true
+    } else if (trimmed && !/^(?:[-*]|\d+\.)\s+(?!\[[ xX]\])/.test(trimmed)) {
+      inAcceptance = false
+    }
+    const subtask = /^(?:[-*]|\d+\.)\s+\[[ xX]\]/.test(trimmed)
+    if (subtask) subtaskIndent = Math.min(subtaskIndent, indent)
+    // Lines nested deeper than a subtask are notes on that subtask, so they stay too
+    const structural =
+      inSummary ||
+      inAcceptance ||
+      subtask ||
+      !trimmed ||
+      indent > subtaskIndent ||
+      (["id", "depends", "verify", "type", "scope"] as const).some((key) =>
+        matchMetadataLine(line, key),
+      )
+    if (structural) kept.push(line)
+    if (trimmed === SUMMARY_END) inSummary = false
+  }
+  const described = description.trim()
+    ? description
+        .trim()
+        .split("\n")
+        .map((line) => (line.trim() ? `  ${line.trim()}` : ""))
+    : []
+  lines.splice(task.lineNumber, end - task.lineNumber + 1, ...described, ...kept)
+  return lines.join("\n")
+}
+
+/**
+ * Get the generated change summary lines under a task, or null if it has none
+ */
+function getTaskSummary(lines: string[], task: PlanTask): string[] | null {
+  const end = taskBlockEnd(lines, task)
+  const start = lines.findIndex(
+    (line, i) => i >= task.lineNumber && i <= end && line.trim() === SUMMARY_START,
+  )
+  if (start === -1) return null
+  const summary: string[] = []
+  for (let i = start + 1; i <= end && lines[i].trim() !== SUMMARY_END; i++) {
+    summary.push(lines[i].trim())
+  }
+  return summary
+}
+
+/**
+ * Read a plan file, set a task's status and write it back.
+ *
+ * @returns The updated task, or null if the plan or task could not be found
+ */
+export async function setTaskStatus(
+  directory: string,
+  planFile: string,
+  taskNum: number,
+  newStatus: TaskStatus,
+): Promise<PlanTask | null> {
+  const content = await readPlanFile(directory, planFile)
+  if (!content) return null
+
+  const plan = parsePlanFile(content)
+  const task = plan.tasks[taskNum - 1]
+  if (!task) return null
+
+  if (task.status !== newStatus) {
+    await writePlanFile(
+      directory,
+      planFile,
+      updateTaskStatus(content, task.id, plan.tasks, newStatus),
+    )
+  }
+  return { ...task, status: newStatus }
+}
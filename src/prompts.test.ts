@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test"
+import { parsePlanFile } from "./plan"
+import { generateSingleTaskPrompt } from "./prompts"
+
+describe("generateSingleTaskPrompt", () => {
+  const plan = parsePlanFile(`# API
+
+## Tasks
+
+- [x] **Set up the project**
+- [ ] **Add the endpoints**
+  - [x] GET /users
+  - [ ] POST /users
+`)
+
+  test("lists subtasks and tells the agent how to check them off in this plan", () => {
+    const prompt = generateSingleTaskPrompt(
+      plan,
+      plan.tasks[1],
+      2,
+      true,
+      undefined,
+      null,
+      null,
+      ".opencode/plans/api.md",
+    )
+    expect(prompt).toContain("### Subtasks\n1. [x] GET /users\n2. [ ] POST /users\n")
+    expect(prompt).toContain(
+      'nm-complete (file=".opencode/plans/api.md", task=2, subtask=<number>)',
+    )
+  })
+
+  test("leaves out the subtask section for tasks without subtasks", () => {
+    expect(generateSingleTaskPrompt(plan, plan.tasks[0], 1, true)).not.toContain("nm-complete")
+  })
+})
@@ -1,7 +1,19 @@
-import type { ParsedPlan, PlanTask, ProjectTools } from "./types"
+import type { ParsedPlan, PlanTask, ProjectTools, VerifyResult } from "./types"
+import { statusCheckbox } from "./plan"
 
 /**
- * Generate a prompt for executing a single task from a plan
+ * Command recorded in a VerifyResult when the failure came from a rejected commit
+ */
+export const COMMIT_FAILURE_COMMAND = "git commit"
+
+/**
+ * Generate a prompt for executing a single task from a plan.
+ *
+ * When `verifyFailure` is given, the previous attempt failed verification (or its
+ * commit was rejected, with COMMIT_FAILURE_COMMAND as the command) and the output is
+ * included so the agent can fix the problem before moving on. When the run is
+ * isolated in a `worktree`, the agent is told to work there instead. `planFile` is
+ * passed back in the nm-complete calls the agent is asked to make.
  */
 export function generateSingleTaskPrompt(
   plan: ParsedPlan,
@@ -9,6 +21,9 @@ export function generateSingleTaskPrompt(
   taskNum: number,
   isLoopMode: boolean,
   projectTools?: ProjectTools,
+  verifyFailure?: VerifyResult | null,
+  worktree?: string | null,
+  planFile?: string | null,
 ): string {
   let prompt = `# ${plan.title || "Project Plan"}\n\n`
 
@@ -16,6 +31,11 @@ export function generateSingleTaskPrompt(
     prompt += `## Project Context\n${plan.overview}\n\n`
   }
 
+  if (worktree) {
+    prompt += `## Working Directory\nThis run is isolated in a git worktree at \`${worktree}\`.\n`
+    prompt += `Make ALL changes (and run all commands) there - not in the main project checkout.\n\n`
+  }
+
   // Show available project tools with usage instructions
   if (projectTools) {
     const tools: string[] = []
@@ -47,7 +67,7 @@ export function generateSingleTaskPrompt(
   prompt += `### All Tasks\n`
   for (let i = 0; i < plan.tasks.length; i++) {
     const t = plan.tasks[i]
-    const checkbox = t.status === "completed" ? "[x]" : "[ ]"
+    const checkbox = statusCheckbox(t.status)
     const current = i === taskNum - 1 ? " ← CURRENT" : ""
     prompt += `${i + 1}. ${checkbox} ${t.title}${current}\n`
   }
@@ -57,13 +77,50 @@ export function generateSingleTaskPrompt(
   prompt += task.description || "No additional description provided."
   prompt += `\n\n`
 
+  if (task.subtasks?.length) {
+    prompt += `### Subtasks\n`
+    task.subtasks.forEach((sub, i) => {
+      prompt += `${i + 1}. ${sub.completed ? "[x]" : "[ ]"} ${sub.title}\n`
+    })
+    const planArg = planFile ? `file="${planFile}", ` : ""
+    prompt += `\nCheck off each subtask as you finish it with nm-complete (${planArg}task=${taskNum}, subtask=<number>). `
+    prompt += `This task is only marked complete once every subtask is checked.\n\n`
+  }
+
+  if (task.acceptance?.length) {
+    prompt += `### Acceptance Criteria\n`
+    task.acceptance.forEach((criterion, i) => {
+      prompt += `${i + 1}. ${criterion}\n`
+    })
+    prompt += `\nBefore <task-done>, report on each criterion by number:\n`
+    prompt += `<acceptance>\n1. met\n2. not met - <why>\n</acceptance>\n`
+    prompt += `This task is only marked complete once every criterion is reported as met.\n\n`
+  }
+
+  if (verifyFailure?.command === COMMIT_FAILURE_COMMAND) {
+    prompt += `## ⚠️ Commit Rejected\n\n`
+    prompt += `The commit for the previous attempt at this task was rejected (usually by a pre-commit or commit-msg hook), so it was NOT marked complete.\n`
+    prompt += `Fix the problems below before doing anything else:\n\n`
+    prompt += "```\n" + (verifyFailure.output || "(no output)") + "\n```\n\n"
+  } else if (verifyFailure) {
+    prompt += `## ⚠️ Verification Failed\n\n`
+    prompt += `The previous attempt at this task did not pass \`${verifyFailure.command}\`, so it was NOT marked complete.\n`
+    prompt += `Fix the problems below before doing anything else:\n\n`
+    prompt += "```\n" + (verifyFailure.output || "(no output)") + "\n```\n\n"
+  }
+
+  const verifyCommand = task.verifyCommand || plan.verifyCommand
+  if (verifyCommand) {
+    prompt += `## Verification\n\nThis task is only marked complete once \`${verifyCommand}\` passes. Run it yourself before finishing.\n\n`
+  }
+
   // Different instructions based on mode
   if (isLoopMode) {
     prompt += `## Instructions
 
 Complete this task thoroughly. When you finish:
 1. Verify your work is correct
-2. The task will be automatically marked complete
+2. Output <task-done>${taskNum}</task-done> - the task is ONLY marked complete when you do
 3. A git commit will be created for this task
 4. The loop will continue to the next task
 
@@ -74,10 +131,16 @@ Focus ONLY on this task - do not work ahead.
 
 Complete this task thoroughly. When you finish:
 1. Verify your work is correct
-2. The task will be automatically marked complete
+2. Output <task-done>${taskNum}</task-done> - the task is ONLY marked complete when you do
 3. Review your changes and commit manually when ready
 `
   }
 
+  prompt += `
+If you cannot finish this task (missing information, access, or a decision only the
+user can make), output <task-blocked reason="...">${taskNum}</task-blocked> instead.
+Never output <task-done> for work that is not actually finished.
+`
+
   return prompt
 }
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test"
+import * as path from "node:path"
+import * as os from "node:os"
+import * as fs from "node:fs/promises"
+import type { NelsonState } from "./types"
+import { NELSON_STATE_DIR, findLoopForPlan, listStates, readState, writeState } from "./state"
+
+describe("loop state", () => {
+  const createProject = async (): Promise<string> => {
+    const dir = path.join(os.tmpdir(), `nelson-state-test-${Date.now()}`)
+    await fs.mkdir(dir, { recursive: true })
+    return dir
+  }
+
+  const loopState = (
+    sessionId: string | null,
+    startedAt: string,
+    planFile?: string,
+  ): NelsonState => ({
+    active: true,
+    iteration: 1,
+    maxIterations: 10,
+    completionPromise: null,
+    prompt: "",
+    sessionId,
+    startedAt,
+    planFile,
+  })
+
+  test("keeps one state file per session", async () => {
+    const dir = await createProject()
+    try {
+      await writeState(dir, "ses/1", loopState("ses/1", "2026-01-01T10:00:00Z"))
+      await writeState(dir, null, loopState(null, "2026-01-01T09:00:00Z"))
+      expect((await fs.readdir(path.join(dir, NELSON_STATE_DIR))).sort()).toEqual([
+        "ses_1.local.json",
+        "unbound.local.json",
+      ])
+      expect((await readState(dir, "ses/1"))?.startedAt).toBe("2026-01-01T10:00:00Z")
+      expect(await readState(dir, "ses-2")).toBeNull()
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("lists every loop oldest first, skipping corrupted files", async () => {
+    const dir = await createProject()
+    try {
+      expect(await listStates(dir)).toEqual([])
+      await writeState(dir, "ses-b", loopState("ses-b", "2026-01-02T00:00:00Z"))
+      await writeState(dir, "ses-a", loopState("ses-a", "2026-01-01T00:00:00Z"))
+      await fs.writeFile(path.join(dir, NELSON_STATE_DIR, "broken.local.json"), "{")
+      await fs.writeFile(path.join(dir, NELSON_STATE_DIR, "notes.txt"), "not a state file")
+
+      const states = await listStates(dir)
+      expect(states.map((s) => s.sessionId)).toEqual(["ses-a", "ses-b"])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test("finds another session's loop for a plan, paused or not", async () => {
+    const dir = await createProject()
+    try {
+      await writeState(dir, "ses-a", loopState("ses-a", "2026-01-01T00:00:00Z", "a.md"))
+      await writeState(dir, "ses-b", {
+        ...loopState("ses-b", "2026-01-02T00:00:00Z", "b.md"),
+        active: false,
+      })
+
+      expect((await findLoopForPlan(dir, "a.md", "ses-c"))?.sessionId).toBe("ses-a")
+      expect((await findLoopForPlan(dir, "b.md", null))?.sessionId).toBe("ses-b")
+      // A session's own loop doesn't count as another one
+      expect(await findLoopForPlan(dir, "a.md", "ses-a")).toBeNull()
+      expect(await findLoopForPlan(dir, "c.md", null)).toBeNull()
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -1,14 +1,30 @@
 import * as path from "node:path"
-import { mkdir, unlink } from "node:fs/promises"
+import { mkdir, readdir, unlink } from "node:fs/promises"
 import type { NelsonState } from "./types"
 
-export const NELSON_STATE_FILE = ".opencode/nelson-loop.local.json"
+export const NELSON_STATE_DIR = ".opencode/nelson-loops"
 
 /**
- * Read the Nelson loop state from disk
+ * Key used for loops started without a session ID (e.g. tool context unavailable)
  */
-export async function readState(directory: string): Promise<NelsonState | null> {
-  const statePath = path.join(directory, NELSON_STATE_FILE)
+export const UNBOUND_SESSION_KEY = "unbound"
+
+/**
+ * Build the state file path for a session
+ */
+function stateFilePath(directory: string, sessionId: string | null): string {
+  const key = sessionId ? sessionId.replace(/[^\w-]/g, "_") : UNBOUND_SESSION_KEY
+  return path.join(directory, NELSON_STATE_DIR, `${key}.local.json`)
+}
+
+/**
+ * Read the Nelson loop state for a session from disk
+ */
+export async function readState(
+  directory: string,
+  sessionId: string | null,
+): Promise<NelsonState | null> {
+  const statePath = stateFilePath(directory, sessionId)
   try {
     const file = Bun.file(statePath)
     if (await file.exists()) {
@@ -21,20 +37,24 @@ export async function readState(directory: string): Promise<NelsonState | null>
 }
 
 /**
- * Write the Nelson loop state to disk
+ * Write the Nelson loop state for a session to disk
  */
-export async function writeState(directory: string, state: NelsonState): Promise<void> {
-  const statePath = path.join(directory, NELSON_STATE_FILE)
+export async function writeState(
+  directory: string,
+  sessionId: string | null,
+  state: NelsonState,
+): Promise<void> {
+  const statePath = stateFilePath(directory, sessionId)
   const dir = path.dirname(statePath)
   await mkdir(dir, { recursive: true })
   await Bun.write(statePath, JSON.stringify(state, null, 2))
 }
 
 /**
- * Remove the Nelson loop state file
+ * Remove the Nelson loop state file for a session
  */
-export async function removeState(directory: string): Promise<boolean> {
-  const statePath = path.join(directory, NELSON_STATE_FILE)
+export async function removeState(directory: string, sessionId: string | null): Promise<boolean> {
+  const statePath = stateFilePath(directory, sessionId)
   try {
     const file = Bun.file(statePath)
     if (await file.exists()) {
@@ -46,3 +66,41 @@ export async function removeState(directory: string): Promise<boolean> {
   }
   return false
 }
+
+/**
+ * List the state of every Nelson loop in the project, oldest first
+ */
+export async function listStates(directory: string): Promise<NelsonState[]> {
+  const stateDir = path.join(directory, NELSON_STATE_DIR)
+  let entries: string[]
+  try {
+    entries = await readdir(stateDir)
+  } catch {
+    // Directory doesn't exist or can't be read
+    return []
+  }
+
+  const states: NelsonState[] = []
+  for (const entry of entries) {
+    if (!entry.endsWith(".local.json")) continue
+    try {
+      states.push(await Bun.file(path.join(stateDir, entry)).json())
+    } catch {
+      // Skip corrupted state files
+    }
+  }
+  return states.sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+}
+
+/**
+ * Find a loop (other than the given session's) that is running the given plan file.
+ * Paused loops count too, since resuming one would continue the same plan.
+ */
+export async function findLoopForPlan(
+  directory: string,
+  planFile: string,
+  excludeSessionId: string | null,
+): Promise<NelsonState | null> {
+  const states = await listStates(directory)
+  return states.find((s) => s.planFile === planFile && s.sessionId !== excludeSessionId) ?? null
+}
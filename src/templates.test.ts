@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test"
+import * as path from "node:path"
+import * as os from "node:os"
+import * as fs from "node:fs/promises"
+import {
+  NELSON_TEMPLATE_DIR,
+  BUILTIN_PLAN_TEMPLATES,
+  listPlanTemplates,
+  loadPlanTemplate,
+  fillPlanTemplate,
+} from "./templates"
+
+describe("plan templates", () => {
+  test("fills in placeholders and leaves unknown ones alone", () => {
+    const filled = fillPlanTemplate("# {name}\n\n{description}\n\n`{slug}` {other}", {
+      name: "Fix login",
+      description: "Users can't log in with SSO",
+      slug: "fix-login",
+    })
+    expect(filled).toBe("# Fix login\n\nUsers can't log in with SSO\n\n`fix-login` {other}")
+  })
+
+  test("project templates replace built-in ones with the same name", async () => {
+    const dir = path.join(os.tmpdir(), `nelson-templates-test-${Date.now()}`)
+    try {
+      await fs.mkdir(path.join(dir, NELSON_TEMPLATE_DIR), { recursive: true })
+      await Bun.write(path.join(dir, NELSON_TEMPLATE_DIR, "bugfix.md"), "# Our bugfix {name}\n")
+      await Bun.write(path.join(dir, NELSON_TEMPLATE_DIR, "spike.md"), "# Spike {name}\n")
+
+      expect(await loadPlanTemplate(dir, "bugfix")).toBe("# Our bugfix {name}\n")
+      expect(await loadPlanTemplate(dir, "feature")).toBe(BUILTIN_PLAN_TEMPLATES.feature)
+      expect(await loadPlanTemplate(dir, "missing")).toBeNull()
+
+      const templates = await listPlanTemplates(dir)
+      expect(templates.find((t) => t.name === "bugfix")?.source).toBe("project")
+      expect(templates.find((t) => t.name === "spike")?.source).toBe("project")
+      expect(templates.find((t) => t.name === "migration")?.source).toBe("built-in")
+      expect(templates.filter((t) => t.name === "bugfix")).toHaveLength(1)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,286 @@
+import * as path from "node:path"
+import { readdir } from "node:fs/promises"
+
+export const NELSON_TEMPLATE_DIR = ".opencode/nelson/templates"
+
+/**
+ * Built-in plan templates, by name. Placeholders are filled in by fillPlanTemplate.
+ */
+export const BUILTIN_PLAN_TEMPLATES: Record<string, string> = {
+  default: `# {name}
+
+<!-- Optional: Set a completion promise -->
+<!-- completion_promise: ALL_TASKS_COMPLETE -->
+
+<!-- Optional: Add a "verify: \`<command>\`" line (e.g. verify: \`bun test\`) to require -->
+<!-- a passing command before each task is marked complete. Indent it under a -->
+<!-- task to apply it to that task only. -->
+
+## Overview
+
+{description}
+
+Describe your project goals and context here. This section helps the AI understand
+the bigger picture and make better decisions.
+
+## Tasks
+
+- [ ] **Task 1: Setup and Configuration**
+  Initialize the project structure and configure dependencies.
+  Include any specific requirements or constraints.
+
+- [ ] **Task 2: Implement Core Feature**
+  Describe what needs to be built.
+  List acceptance criteria if helpful.
+
+- [ ] **Task 3: Add Tests**
+  Write tests for the implemented features.
+  Specify coverage requirements if any.
+
+- [ ] **Task 4: Documentation**
+  Update README and add inline documentation.
+
+## Completion
+
+When all tasks are complete and verified, output:
+<promise>ALL_TASKS_COMPLETE</promise>
+
+---
+
+## Notes
+
+Add any additional notes, constraints, or context here.
+`,
+  bugfix: `---
+completion_promise: BUG_FIXED
+---
+# {name}
+
+## Overview
+
+{description}
+
+Fix the bug without changing unrelated behaviour. Every step should leave the test
+suite passing.
+
+## Tasks
+
+- [ ] **Reproduce the bug**
+  Find the smallest input or sequence of steps that triggers it and note the
+  expected and actual behaviour.
+
+- [ ] **Write a failing test**
+  Add a regression test that captures the bug and fails for the right reason.
+
+- [ ] **Find the root cause**
+  Trace the failure back to the code responsible. Explain the cause in the task
+  notes before changing anything.
+
+- [ ] **Fix the bug**
+  Make the smallest change that fixes the root cause and makes the new test pass.
+
+- [ ] **Check for similar bugs**
+  Look for the same mistake elsewhere in the codebase and fix or note any matches.
+
+## Completion
+
+When the bug is fixed and the regression test passes, output:
+<promise>BUG_FIXED</promise>
+`,
+  feature: `---
+completion_promise: FEATURE_COMPLETE
+---
+# {name}
+
+## Overview
+
+{description}
+
+## Tasks
+
+- [ ] **Design the feature**
+  Decide on the public interface, data model and where the code lives. Note any
+  open questions.
+
+- [ ] **Implement the core behaviour**
+  Build the main code path with the simplest design that works.
+
+- [ ] **Handle edge cases and errors**
+  Cover invalid input, empty states and failures with clear error messages.
+
+- [ ] **Add tests**
+  Test the main path and the edge cases from the previous task.
+
+- [ ] **Document the feature**
+  Update the README or user docs and add doc comments to new public code.
+
+## Completion
+
+When the feature is implemented, tested and documented, output:
+<promise>FEATURE_COMPLETE</promise>
+`,
+  refactor: `---
+completion_promise: REFACTOR_COMPLETE
+---
+# {name}
+
+## Overview
+
+{description}
+
+Behaviour must not change: the existing tests should pass after every task, without
+being edited to fit.
+
+## Tasks
+
+- [ ] **Cover the current behaviour with tests**
+  Add tests for any behaviour of the code being refactored that isn't covered yet.
+
+- [ ] **Introduce the new structure**
+  Add the new modules, types or functions alongside the old code.
+
+- [ ] **Move callers over**
+  Switch every caller to the new structure, one area at a time.
+
+- [ ] **Remove the old code**
+  Delete code that is no longer used, along with its dead tests and docs.
+
+## Completion
+
+When the refactor is finished and all tests pass, output:
+<promise>REFACTOR_COMPLETE</promise>
+`,
+  migration: `---
+completion_promise: MIGRATION_COMPLETE
+---
+# {name}
+
+## Overview
+
+{description}
+
+The migration must be reversible until the final task, and the application must keep
+working at every step.
+
+## Tasks
+
+- [ ] **Inventory what needs to migrate**
+  List every usage, record or config that depends on the old system.
+
+- [ ] **Add the new system alongside the old one**
+  Set it up so both can run at the same time.
+
+- [ ] **Write the migration**
+  Move data or usages across with a script or code change that can be rolled back.
+
+- [ ] **Verify the migrated result**
+  Compare old and new side by side and fix any differences.
+
+- [ ] **Switch over**
+  Point everything at the new system and keep the old one available for rollback.
+
+- [ ] **Remove the old system**
+  Delete the old code, config and data once nothing uses them.
+
+## Completion
+
+When everything runs on the new system and the old one is removed, output:
+<promise>MIGRATION_COMPLETE</promise>
+`,
+  "test-coverage": `---
+completion_promise: COVERAGE_COMPLETE
+---
+# {name}
+
+## Overview
+
+{description}
+
+Only add tests. Production code changes should be limited to what is needed to make
+code testable.
+
+## Tasks
+
+- [ ] **Measure current coverage**
+  Run the coverage report and list the least-covered modules that matter most.
+
+- [ ] **Test the critical paths**
+  Add tests for the main flows through the least-covered modules.
+
+- [ ] **Test edge cases and error handling**
+  Cover invalid input, boundaries and failure paths.
+
+- [ ] **Make the tests reliable**
+  Remove flakiness, shared state and slow setup from the new tests.
+
+- [ ] **Enforce coverage**
+  Add a coverage threshold to the test command or CI so coverage can't drop.
+
+## Completion
+
+When coverage has improved and the threshold is enforced, output:
+<promise>COVERAGE_COMPLETE</promise>
+`,
+}
+
+/**
+ * List the available plan templates: project templates (.md files in
+ * NELSON_TEMPLATE_DIR) and the built-in ones. A project template replaces a built-in
+ * template with the same name.
+ */
+export async function listPlanTemplates(
+  directory: string,
+): Promise<Array<{ name: string; source: "project" | "built-in" }>> {
+  let projectNames: string[] = []
+  try {
+    const entries = await readdir(path.join(directory, NELSON_TEMPLATE_DIR), {
+      withFileTypes: true,
+    })
+    projectNames = entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith(".md"))
+      .map((entry) => entry.name.replace(/\.md$/, ""))
+  } catch {
+    // Directory doesn't exist or can't be read
+  }
+
+  return [
+    ...projectNames.map((name) => ({ name, source: "project" as const })),
+    ...Object.keys(BUILTIN_PLAN_TEMPLATES)
+      .filter((name) => !projectNames.includes(name))
+      .map((name) => ({ name, source: "built-in" as const })),
+  ].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Load a plan template by name, preferring a project template over a built-in one
+ *
+ * @returns The template content, or null if there is no template with that name
+ */
+export async function loadPlanTemplate(directory: string, name: string): Promise<string | null> {
+  const file = Bun.file(path.join(directory, NELSON_TEMPLATE_DIR, `${name}.md`))
+  try {
+    if (await file.exists()) {
+      return await file.text()
+    }
+  } catch {
+    // Fall back to the built-in template
+  }
+  return BUILTIN_PLAN_TEMPLATES[name] ?? null
+}
+
+/**
+ * Fill in a template's placeholders: {name}, {description}, {slug} and {date}
+ * (YYYY-MM-DD). Anything else in braces is left as-is.
+ */
+export function fillPlanTemplate(
+  template: string,
+  values: { name: string; description?: string; slug: string },
+): string {
+  const placeholders: Record<string, string> = {
+    name: values.name,
+    description: values.description || "_Describe the goal of this plan here._",
+    slug: values.slug,
+    date: new Date().toISOString().slice(0, 10),
+  }
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => placeholders[key] ?? match)
+}
@@ -1,5 +1,5 @@
 /**
- * State for the Nelson Muntz loop, persisted to .opencode/nelson-loop.local.json
+ * State for a Nelson Muntz loop, persisted per session to .opencode/nelson-loops/<session>.local.json
  */
 export interface NelsonState {
   active: boolean
@@ -13,6 +13,34 @@ export interface NelsonState {
   currentTaskId?: string | null
   mode?: "loop" | "single-task"
   currentTaskNum?: number | null
+  verifyFailure?: VerifyResult | null
+  iterationStartedAt?: string
+  pausedAt?: string
+  commit?: boolean
+  commitPrefix?: string | null
+  verifyCommand?: string | null
+  branch?: string | null
+  worktree?: string | null
+  requeuedTaskNum?: number | null
+  dirtySnapshot?: Record<string, string> | null
+  squash?: boolean
+  commitFailures?: number
+  maxCommitAttempts?: number
+}
+
+/**
+ * Status of a plan task, stored in the markdown checkbox:
+ * `[ ]` pending, `[~]` in progress, `[x]` completed, `[-]` skipped, `[!]` blocked
+ */
+export type TaskStatus = "pending" | "in_progress" | "completed" | "skipped" | "blocked"
+
+/**
+ * A nested checkbox item under a plan task
+ */
+export interface PlanSubtask {
+  title: string
+  completed: boolean
+  lineNumber: number
 }
 
 /**
@@ -22,8 +50,42 @@ export interface PlanTask {
   id: string
   title: string
   description: string
-  status: "pending" | "in_progress" | "completed" | "skipped"
+  status: TaskStatus
   lineNumber: number
+  verifyCommand?: string | null
+  dependsOn?: string[]
+  subtasks?: PlanSubtask[]
+  commitType?: string
+  commitScope?: string
+  acceptance?: string[]
+}
+
+/**
+ * Project-wide settings from .opencode/nelson.json
+ */
+export interface NelsonConfig {
+  protectedBranches?: string[]
+  commitTemplate?: string
+  commitMaxLength?: number
+}
+
+/**
+ * Plan-level settings from a PLAN.md YAML frontmatter block
+ */
+export interface PlanSettings {
+  completionPromise?: string
+  maxIterations?: number
+  commit?: boolean
+  commitPrefix?: string
+  verify?: string
+  branch?: string
+  createBranch?: boolean
+  worktree?: boolean
+  squash?: boolean
+  summaries?: boolean
+  maxCommitAttempts?: number
+  commitTemplate?: string
+  commitMaxLength?: number
 }
 
 /**
@@ -34,9 +96,31 @@ export interface ParsedPlan {
   overview: string
   tasks: PlanTask[]
   completionPromise: string | null
+  verifyCommand: string | null
+  settings: PlanSettings
+  frontmatterError: string | null
   rawContent: string
 }
 
+/**
+ * Explicit per-task signal emitted by the agent, e.g. `<task-done>3</task-done>`
+ */
+export interface TaskSignal {
+  type: "done" | "blocked"
+  taskNum: number | null
+  reason: string | null
+}
+
+/**
+ * The agent's verdict on one of a task's acceptance criteria (by number), from an
+ * `<acceptance>` block in its final message
+ */
+export interface AcceptanceResult {
+  num: number
+  met: boolean
+  note: string | null
+}
+
 /**
  * Detected project tools (justfile, package.json, Makefile)
  */
@@ -45,3 +129,169 @@ export interface ProjectTools {
   hasPackageJson: boolean
   hasMakefile: boolean
 }
+
+/**
+ * A rendered commit message for a task
+ */
+export interface CommitMessage {
+  subject: string
+  body: string | null
+  trailers?: Record<string, string>
+}
+
+/**
+ * A plan stored as JSON or YAML in .opencode/plans/. Any other top-level key is a plan
+ * setting, named as in the markdown frontmatter (completion_promise, verify, ...).
+ */
+export interface StructuredPlan {
+  title?: string
+  overview?: string
+  tasks?: StructuredPlanTask[]
+  [setting: string]: unknown
+}
+
+/**
+ * A task in a JSON or YAML plan
+ */
+export interface StructuredPlanTask {
+  title: string
+  description?: string
+  status?: TaskStatus
+  id?: string
+  depends?: Array<string | number> | string
+  verify?: string
+  type?: string
+  scope?: string
+  subtasks?: Array<string | { title: string; completed?: boolean }>
+  acceptance?: string[]
+  summary?: string[]
+}
+
+/**
+ * A plan's progress as exported by nm-export
+ */
+export interface PlanReport {
+  title: string
+  planFile: string
+  generatedAt: string
+  overview: string
+  progress: { total: number } & Record<TaskStatus, number>
+  tasks: {
+    number: number
+    id: string
+    title: string
+    status: TaskStatus
+    description: string
+    dependsOn: string[]
+    subtasks: { title: string; completed: boolean }[]
+    acceptance: string[]
+    commits: { sha: string; subject: string }[]
+  }[]
+}
+
+/**
+ * A problem with a plan's task dependencies, reported against the task that has it
+ */
+export interface DependencyProblem {
+  task: PlanTask
+  message: string
+  fix: string
+}
+
+/**
+ * A problem found in a plan by nm-lint
+ */
+export interface PlanDiagnostic {
+  severity: "error" | "warning"
+  line: number | null
+  message: string
+  fix?: string
+}
+
+/**
+ * A checkpoint of the files one task changed, for projects without git
+ */
+export interface CheckpointManifest {
+  taskId: string
+  taskNum: number
+  taskTitle: string
+  createdAt: string
+  changes: { path: string; before: string | null; after: string | null }[]
+}
+
+/**
+ * A task commit found in git history, identified by its Nelson trailers
+ */
+export interface TaskCommit {
+  sha: string
+  subject: string
+  planFile: string
+  taskId: string
+  iteration: number | null
+  squashed: boolean
+}
+
+/**
+ * Lines a change added and removed in one file (0 for binary files)
+ */
+export interface FileStats {
+  path: string
+  insertions: number
+  deletions: number
+}
+
+/**
+ * Result of creating a task commit
+ */
+export interface CommitResult {
+  success: boolean
+  message: string
+  sha?: string
+  branchMismatch?: boolean
+  excluded?: string[]
+  rejected?: boolean
+  output?: string
+}
+
+/**
+ * Outcome of trying to complete (and optionally commit) a plan task
+ */
+export interface TaskCompletionResult {
+  taskTitle: string
+  status: TaskStatus
+  pendingSubtasks?: PlanSubtask[]
+  unmetCriteria?: string[]
+  commitResult?: CommitResult
+  verifyResult?: VerifyResult
+}
+
+/**
+ * Result of running a plan or task verification command
+ */
+export interface VerifyResult {
+  command: string
+  success: boolean
+  output: string
+}
+
+/**
+ * One iteration of a Nelson loop, appended to .opencode/nelson-journal.jsonl
+ */
+export interface JournalEntry {
+  sessionId: string
+  mode: "loop" | "single-task" | "prompt"
+  planFile: string | null
+  taskNum: number | null
+  taskTitle: string | null
+  iteration: number
+  startedAt: string
+  endedAt: string
+  taskStatus: TaskStatus | null
+  verifyPassed: boolean | null
+  commitSha: string | null
+  commitMessage: string | null
+  promiseDetected: boolean | null
+  signal: TaskSignal | null
+  loopEnded: string | null
+  errors: string[]
+}
@@ -2,7 +2,13 @@ import { describe, expect, test } from "bun:test"
 import * as path from "node:path"
 import * as os from "node:os"
 import * as fs from "node:fs/promises"
-import { extractPromiseText, slugify, detectProjectTools } from "./utils"
+import {
+  extractPromiseText,
+  extractTaskSignal,
+  extractAcceptanceReport,
+  slugify,
+  detectProjectTools,
+} from "./utils"
 
 describe("extractPromiseText", () => {
   test("extracts text from promise tags", () => {
@@ -186,3 +192,68 @@ describe("detectProjectTools", () => {
     expect(result.hasMakefile).toBe(false)
   })
 })
+
+describe("extractTaskSignal", () => {
+  test("extracts a done signal with a task number", () => {
+    expect(extractTaskSignal("All good. <task-done>3</task-done>")).toEqual({
+      type: "done",
+      taskNum: 3,
+      reason: null,
+    })
+  })
+
+  test("extracts a done signal without a task number", () => {
+    expect(extractTaskSignal("<task-done />")).toEqual({
+      type: "done",
+      taskNum: null,
+      reason: null,
+    })
+  })
+
+  test("extracts a blocked signal with a reason", () => {
+    const input = `<task-blocked reason="Needs an API key">2</task-blocked>`
+    expect(extractTaskSignal(input)).toEqual({
+      type: "blocked",
+      taskNum: 2,
+      reason: "Needs an API key",
+    })
+  })
+
+  test("extracts a self-closing blocked signal", () => {
+    const input = `<task-blocked reason='Which database?' />`
+    expect(extractTaskSignal(input)).toEqual({
+      type: "blocked",
+      taskNum: null,
+      reason: "Which database?",
+    })
+  })
+
+  test("returns the last signal when several are present", () => {
+    const input = "<task-blocked>1</task-blocked> then <task-done>1</task-done>"
+    expect(extractTaskSignal(input)?.type).toBe("done")
+  })
+
+  test("returns null when no signal is present", () => {
+    expect(extractTaskSignal("I have a question about the schema.")).toBeNull()
+  })
+})
+
+describe("extractAcceptanceReport", () => {
+  test("parses met and unmet criteria from the last report", () => {
+    const input = `<acceptance>\n1. not met\n</acceptance>
+Fixed it.
+<acceptance>
+1. met
+2. not met - returns 500 on empty input
+</acceptance>
+<task-done>2</task-done>`
+    expect(extractAcceptanceReport(input)).toEqual([
+      { num: 1, met: true, note: null },
+      { num: 2, met: false, note: "returns 500 on empty input" },
+    ])
+  })
+
+  test("returns null without a report", () => {
+    expect(extractAcceptanceReport("<task-done>2</task-done>")).toBeNull()
+  })
+})
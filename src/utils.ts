@@ -1,5 +1,5 @@
 import * as path from "node:path"
-import type { ProjectTools } from "./types"
+import type { AcceptanceResult, ProjectTools, TaskSignal } from "./types"
 
 /**
  * Extract text from <promise>...</promise> tags
@@ -12,6 +12,55 @@ export function extractPromiseText(text: string): string | null {
   return null
 }
 
+/**
+ * Extract the last task signal from text: `<task-done>3</task-done>` or
+ * `<task-blocked reason="...">3</task-blocked>` (the task number is optional,
+ * and `<task-done />` / `<task-blocked reason="..." />` are also accepted)
+ */
+export function extractTaskSignal(text: string): TaskSignal | null {
+  const pattern =
+    /<task-(done|blocked)((?:\s+reason\s*=\s*(?:"[^"]*"|'[^']*'))?)\s*(?:\/>|>([\s\S]*?)<\/task-\1>)/g
+  let signal: TaskSignal | null = null
+  for (const match of text.matchAll(pattern)) {
+    const reasonMatch = match[2].match(/reason\s*=\s*(?:"([^"]*)"|'([^']*)')/)
+    const reason = reasonMatch ? (reasonMatch[1] ?? reasonMatch[2]).trim() : null
+    const body = (match[3] ?? "").trim()
+    const taskNum = /^#?\d+$/.test(body) ? parseInt(body.replace("#", ""), 10) : null
+    signal = {
+      type: match[1] as TaskSignal["type"],
+      taskNum,
+      reason: reason || null,
+    }
+  }
+  return signal
+}
+
+/**
+ * Extract the agent's acceptance criteria report from the last `<acceptance>` block in
+ * text, one criterion per line by number:
+ *
+ * <acceptance>
+ * 1. met
+ * 2. not met - the error message is still generic
+ * </acceptance>
+ */
+export function extractAcceptanceReport(text: string): AcceptanceResult[] | null {
+  const blocks = [...text.matchAll(/<acceptance>([\s\S]*?)<\/acceptance>/g)]
+  if (blocks.length === 0) return null
+
+  const results: AcceptanceResult[] = []
+  for (const line of blocks[blocks.length - 1][1].split("\n")) {
+    const match = line.match(/^\s*#?(\d+)[.):]?\s+(met|not met|unmet)\b\s*[-:–—]?\s*(.*)$/i)
+    if (!match) continue
+    results.push({
+      num: parseInt(match[1], 10),
+      met: match[2].toLowerCase() === "met",
+      note: match[3].trim() || null,
+    })
+  }
+  return results
+}
+
 /**
  * Convert text to a URL-friendly slug
  */
@@ -47,3 +96,45 @@ export async function detectProjectTools(directory: string): Promise<ProjectTool
 
   return { hasJustfile, hasPackageJson, hasMakefile }
 }
+
+/**
+ * Run a command in the given directory and capture its output.
+ *
+ * With `timeoutMs`, the command and everything it started are killed once the time is
+ * up, and the result has `timedOut` set.
+ */
+export async function runCommand(
+  directory: string,
+  cmd: string,
+  args: string[],
+  timeoutMs?: number,
+): Promise<{ code: number; stdout: string; stderr: string; timedOut?: boolean }> {
+  const { spawn } = await import("node:child_process")
+  return new Promise((resolve) => {
+    // Its own process group, so a timeout can kill whatever a shell command spawned
+    const proc = spawn(cmd, args, { cwd: directory, detached: timeoutMs !== undefined })
+    let stdout = ""
+    let stderr = ""
+    let timer: ReturnType<typeof setTimeout> | undefined
+    proc.stdout?.on("data", (data) => (stdout += data.toString()))
+    proc.stderr?.on("data", (data) => (stderr += data.toString()))
+    proc.on("close", (code) => {
+      clearTimeout(timer)
+      resolve({ code: code ?? 1, stdout, stderr })
+    })
+    proc.on("error", () => {
+      clearTimeout(timer)
+      resolve({ code: 1, stdout, stderr: "Command failed to spawn" })
+    })
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        try {
+          process.kill(-proc.pid!, "SIGKILL")
+        } catch {
+          // Already exited
+        }
+        resolve({ code: 1, stdout, stderr, timedOut: true })
+      }, timeoutMs)
+    }
+  })
+}
@@ -0,0 +1,18 @@
+import { describe, expect, test } from "bun:test"
+import * as os from "node:os"
+import { runVerification } from "./verify"
+
+describe("runVerification", () => {
+  test("passes when the command exits successfully", async () => {
+    const result = await runVerification(os.tmpdir(), "echo ok")
+    expect(result).toEqual({ command: "echo ok", success: true, output: "ok" })
+  })
+
+  test("fails a command that doesn't exit before the timeout", async () => {
+    const started = Date.now()
+    const result = await runVerification(os.tmpdir(), "echo watching; sleep 30", 200)
+    expect(Date.now() - started).toBeLessThan(5000)
+    expect(result.success).toBe(false)
+    expect(result.output).toStartWith("watching\nTimed out after 0s")
+  })
+})
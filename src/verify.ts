@@ -0,0 +1,38 @@
+import type { VerifyResult } from "./types"
+import { runCommand } from "./utils"
+
+/**
+ * Maximum characters of verification output kept for feeding back to the agent
+ */
+export const MAX_VERIFY_OUTPUT = 4000
+
+/**
+ * How long a verification command may run before it is killed and counted as failed,
+ * so a command that never exits (a watch mode, a dev server) can't stall the loop
+ */
+export const VERIFY_TIMEOUT_MS = 10 * 60 * 1000
+
+/**
+ * Run a verification command (e.g. "bun test") through the shell
+ */
+export async function runVerification(
+  directory: string,
+  command: string,
+  timeoutMs: number = VERIFY_TIMEOUT_MS,
+): Promise<VerifyResult> {
+  const result = await runCommand(directory, "sh", ["-c", command], timeoutMs)
+  let output = [result.stdout, result.stderr]
+    .filter((s) => s.trim())
+    .join("\n")
+    .trim()
+  if (result.timedOut) {
+    output += `${output ? "\n" : ""}Timed out after ${Math.round(timeoutMs / 1000)}s - the command must exit on its own (no watch mode or servers)`
+  }
+
+  // Keep the tail - test runners print their summary last
+  if (output.length > MAX_VERIFY_OUTPUT) {
+    output = `...(truncated)\n${output.slice(-MAX_VERIFY_OUTPUT)}`
+  }
+
+  return { command, success: result.code === 0, output }
+}